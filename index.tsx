@@ -1,9 +1,58 @@
 
 import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
-import { GoogleGenAI, Modality, Type, FunctionDeclaration, LiveServerMessage } from "@google/genai";
+import { GoogleGenAI, Modality, Type, FunctionDeclaration, FunctionCall, FunctionResponse, Content, GenerateContentConfig, LiveServerMessage, Session } from "@google/genai";
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import {
+    MERGE_FIELDS,
+    type SyncStatus,
+    type PendingAction,
+    type PendingTransaction,
+    type ChatMessage,
+    type AwaitingChatCall,
+    type ChatThread,
+    type Category,
+    type CategoryRule,
+    type CategorizerInput,
+    type CategorySuggestion,
+    type Categorizer,
+    type RecordSplit,
+    type FinancialRecord,
+    type Attachment,
+    type ReceiptExtraction,
+    type Budget,
+    type RecurringRule,
+    type ImportedTransaction,
+    type CsvDateFormat,
+    type ImportProfile,
+    type AmountOperator,
+    type LedgerFilter,
+    type SavedFilter,
+    type LedgerSortKey,
+    type LedgerSort,
+    type ExchangeRate,
+    type HealthComponentKey,
+    type HealthWeights,
+    type HealthComponent,
+    type HealthSnapshot,
+    type InsightKind,
+    type MergeField,
+    type RecordFields,
+    type SyncConflict,
+    type SyncAdapter,
+    type VoiceName,
+    type ChatReply,
+    type OutboxStatus,
+    type OutboxItem,
+    type OutboxControls,
+    type VoiceState,
+    type VoiceSessionOptions,
+    type VoiceSession
+} from './types';
+import { BASE_CURRENCY, formatCurrency, convertToBase, getCategorySlug, normalizeName, toIsoDate, monthOf, shiftMonth, monthsEndingAt, dateSpan, recordParts, FREQUENCY_LABELS, dueOccurrences, nextOccurrence, buildRecurringInstance } from './ledger';
+import { buildInsights } from './insights';
+import { createLocalSyncServer, createHttpSyncAdapter, pickFields, sameFieldValue, copyField, mergeRecordFields, asSynced, applySyncResults } from './sync';
 
 // --- UTILS ---
 function encode(bytes: Uint8Array) {
@@ -38,182 +87,2588 @@ async function decodeAudioData(data: Uint8Array, ctx: AudioContext, sampleRate:
   return buffer;
 }
 
-const getCategorySlug = (cat: string) => cat.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+// Első indításkor ezekkel töltjük fel a kategória-nyilvántartást
+const DEFAULT_CATEGORIES: Category[] = [
+    { id: 'etel', name: 'Étel', color: '#10b981', icon: 'restaurant', order: 0 },
+    { id: 'utazas', name: 'Utazás', color: '#3b82f6', icon: 'flight', order: 1 },
+    { id: 'tech', name: 'Tech', color: '#8b5cf6', icon: 'devices', order: 2 },
+    { id: 'lakhatas', name: 'Lakhatás', color: '#f59e0b', icon: 'home', order: 3 },
+    { id: 'szorakozas', name: 'Szórakozás', color: '#ec4899', icon: 'celebration', order: 4 },
+    { id: 'munka', name: 'Munka', color: '#06b6d4', icon: 'work', order: 5 },
+    { id: 'egyeb', name: 'Egyéb', color: '#94a3b8', icon: 'category', order: 6 }
+];
 
-// --- TYPES ---
-type SyncStatus = 'synced' | 'pending' | 'conflict';
+// Az "Egyéb" kategória a tartalék: nem archiválható és nem vonható össze, csak átnevezhető
+const FALLBACK_CATEGORY_ID = 'egyeb';
 
-type PendingTransaction = {
-    id: string;
-    toolCallId: string;
-    name: string;
-    amount: number;
-    category: string;
-    comment: string;
-    isEditing?: boolean;
-    sessionResolver?: (response: any) => void;
+// --- LEDGER STORAGE ---
+interface LedgerRepository {
+    loadAll: () => Promise<FinancialRecord[]>;
+    write: (changed: FinancialRecord[], removedIds: string[]) => Promise<void>;
+}
+
+const idbRequest = <T,>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+});
+
+// Sémamigrációk: az i. elem az adatbázist az i+1. verzióra emeli. Új verzióhoz csak a lista végére szabad fűzni.
+const DB_MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+    // v1: tételek tárolója dátum és kategória indexszel, a korábbi localStorage napló átemelésével
+    (db) => {
+        const store = db.createObjectStore('records', { keyPath: 'id' });
+        store.createIndex('date', 'date');
+        store.createIndex('category', 'category');
+        const legacy = localStorage.getItem('herwinner_ledger');
+        if (legacy) (JSON.parse(legacy) as FinancialRecord[]).forEach(r => store.put(r));
+    },
+    // v2: offline AI kérések kimenő sora
+    (db) => {
+        const store = db.createObjectStore('outbox', { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+    },
+    // v3: ismétlődő tételek szabályai
+    (db) => {
+        db.createObjectStore('recurring_rules', { keyPath: 'id' });
+    },
+    // v4: kategória- és időszakonkénti költségkeretek
+    (db) => {
+        db.createObjectStore('budgets', { keyPath: 'id' });
+    },
+    // v5: helyi árfolyamtábla
+    (db) => {
+        db.createObjectStore('exchange_rates', { keyPath: 'id' });
+    },
+    // v6: banki CSV import profilok
+    (db) => {
+        db.createObjectStore('import_profiles', { keyPath: 'id' });
+    },
+    // v7: mentett napló szűrők
+    (db) => {
+        db.createObjectStore('saved_filters', { keyPath: 'id' });
+    },
+    // v8: kategória-nyilvántartás az alapértelmezett és a naplóban már előforduló kategóriákkal
+    (db, tx) => {
+        const store = db.createObjectStore('categories', { keyPath: 'id' });
+        DEFAULT_CATEGORIES.forEach(c => store.put(c));
+        const req = tx.objectStore('records').getAll();
+        req.onsuccess = () => {
+            const known = new Set(DEFAULT_CATEGORIES.map(c => c.name));
+            for (const name of (req.result as FinancialRecord[]).flatMap(recordParts).map(p => p.category)) {
+                if (!name || known.has(name)) continue;
+                known.add(name);
+                store.put(newCategory(name, known.size));
+            }
+        };
+    },
+    // v9: automatikus kategorizálási szabályok
+    (db) => {
+        db.createObjectStore('category_rules', { keyPath: 'id' });
+    },
+    // v10: pénzügyi pontszám súlyai és havi előzményei
+    (db) => {
+        db.createObjectStore('health_settings', { keyPath: 'id' });
+        db.createObjectStore('health_history', { keyPath: 'id' });
+    },
+    // v11: tételekhez csatolt fájlok (nyugtaképek)
+    (db) => {
+        db.createObjectStore('attachments', { keyPath: 'id' });
+    },
+    // v12: asszisztens-beszélgetések, utolsó módosítás szerint indexelve
+    (db) => {
+        const store = db.createObjectStore('chat_threads', { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+    },
+];
+
+const openDatabases = new Map<string, Promise<IDBDatabase>>();
+
+const openDatabase = (dbName: string) => {
+    const existing = openDatabases.get(dbName);
+    if (existing) return existing;
+    const dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const req = indexedDB.open(dbName, DB_MIGRATIONS.length);
+        let importedLegacy = false;
+        req.onupgradeneeded = (e) => {
+            const tx = req.transaction!;
+            for (let v = e.oldVersion; v < DB_MIGRATIONS.length; v++) {
+                DB_MIGRATIONS[v](req.result, tx);
+            }
+            importedLegacy = e.oldVersion === 0;
+        };
+        req.onsuccess = () => {
+            // A régi kulcsot csak sikeres migráció után töröljük
+            if (importedLegacy) localStorage.removeItem('herwinner_ledger');
+            resolve(req.result);
+        };
+        req.onerror = () => reject(req.error);
+    });
+    openDatabases.set(dbName, dbPromise);
+    return dbPromise;
+};
+
+const idbTransactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+});
+
+const createIndexedDbLedgerRepository = (dbName: string): LedgerRepository => {
+    const open = () => openDatabase(dbName);
+
+    return {
+        loadAll: async () => {
+            const db = await open();
+            const index = db.transaction('records').objectStore('records').index('date');
+            const records = await idbRequest(index.getAll() as IDBRequest<FinancialRecord[]>);
+            return records.reverse();
+        },
+        write: async (changed, removedIds) => {
+            const db = await open();
+            const tx = db.transaction('records', 'readwrite');
+            const store = tx.objectStore('records');
+            changed.forEach(r => store.put(r));
+            removedIds.forEach(id => store.delete(id));
+            await idbTransactionDone(tx);
+        }
+    };
+};
+
+// Egyszerű, azonosító szerint kulcsolt tároló a kisebb gyűjteményekhez (kimenő sor, szabályok stb.)
+interface CollectionRepository<T extends { id: string }> {
+    loadAll: () => Promise<T[]>;
+    put: (item: T) => Promise<void>;
+    remove: (id: string) => Promise<void>;
+}
+
+type OutboxRepository = CollectionRepository<OutboxItem>;
+type RecurringRuleRepository = CollectionRepository<RecurringRule>;
+type BudgetRepository = CollectionRepository<Budget>;
+type ExchangeRateRepository = CollectionRepository<ExchangeRate>;
+type ImportProfileRepository = CollectionRepository<ImportProfile>;
+type SavedFilterRepository = CollectionRepository<SavedFilter>;
+type CategoryRepository = CollectionRepository<Category>;
+type CategoryRuleRepository = CollectionRepository<CategoryRule>;
+type HealthSettingsRepository = CollectionRepository<HealthWeights>;
+type HealthHistoryRepository = CollectionRepository<HealthSnapshot>;
+type AttachmentRepository = CollectionRepository<Attachment>;
+type ChatThreadRepository = CollectionRepository<ChatThread>;
+
+const createIndexedDbCollection = <T extends { id: string }>(dbName: string, storeName: string, orderBy?: string): CollectionRepository<T> => ({
+    loadAll: async () => {
+        const db = await openDatabase(dbName);
+        const store = db.transaction(storeName).objectStore(storeName);
+        return idbRequest((orderBy ? store.index(orderBy) : store).getAll() as IDBRequest<T[]>);
+    },
+    put: async (item) => {
+        const db = await openDatabase(dbName);
+        const tx = db.transaction(storeName, 'readwrite');
+        tx.objectStore(storeName).put(item);
+        await idbTransactionDone(tx);
+    },
+    remove: async (id) => {
+        const db = await openDatabase(dbName);
+        const tx = db.transaction(storeName, 'readwrite');
+        tx.objectStore(storeName).delete(id);
+        await idbTransactionDone(tx);
+    }
+});
+
+// --- CATEGORIES ---
+const newCategory = (name: string, order: number, parentId?: string): Category => ({
+    id: `cat-${Date.now().toString(36)}-${order}`,
+    name,
+    color: '#94a3b8',
+    icon: 'label',
+    order,
+    parentId
+});
+
+// Fa sorrend: főkategóriák, mindegyik alatt a saját alkategóriái
+const orderedCategories = (categories: Category[]) => {
+    const byOrder = (a: Category, b: Category) => a.order - b.order;
+    const roots = categories.filter(c => !c.parentId || !categories.some(p => p.id === c.parentId)).sort(byOrder);
+    return roots.flatMap(root => [root, ...categories.filter(c => c.parentId === root.id).sort(byOrder)]);
+};
+
+const activeCategoryNames = (categories: Category[]) => orderedCategories(categories).filter(c => !c.archived).map(c => c.name);
+
+const fallbackCategoryName = (categories: Category[]) => categories.find(c => c.id === FALLBACK_CATEGORY_ID)?.name ?? 'Egyéb';
+
+// Szabad szöveges (pl. AI által adott) kategória illesztése a nyilvántartáshoz; ismeretlennél a tartalék kategória
+const resolveCategoryName = (categories: Category[], name?: string) =>
+    categories.find(c => !c.archived && name && getCategorySlug(c.name) === getCategorySlug(name))?.name ?? fallbackCategoryName(categories);
+
+// Átnevezés és összevonás: a tétel (és felosztása) a régi név helyett az újat kapja; változatlan tételnél ugyanazt az objektumot adja vissza
+const renameItemCategory = <T extends { category: string; splits?: RecordSplit[] }>(item: T, from: string, to: string): T => {
+    if (item.category !== from && !item.splits?.some(s => s.category === from)) return item;
+    return {
+        ...item,
+        category: item.category === from ? to : item.category,
+        splits: item.splits?.map(s => s.category === from ? { ...s, category: to } : s)
+    };
+};
+
+// --- AUTO CATEGORISATION ---
+// A helyi osztályozó legalább ennyi (nem tartalék kategóriás) tételből tanul, kevesebbnél nem ad javaslatot
+const MIN_TRAINING_RECORDS = 5;
+// Kis simítás, hogy néhány tételnyi előzménynél is a szavak döntsenek, ne a kategóriák gyakorisága
+const SMOOTHING = 0.1;
+
+type CategoryClassifier = {
+    docCounts: Map<string, number>;
+    tokenCounts: Map<string, Map<string, number>>;
+    tokenTotals: Map<string, number>;
+    vocabulary: Set<string>;
+    totalDocs: number;
+};
+
+// Ékezet- és kisbetű-független szavak a névből és a megjegyzésből. Az összeg nem jellemző: kevés előzménynél
+// félrevinné a becslést, az összegsávokra a felhasználói szabályok valók.
+const categorizerTokens = ({ name, comment }: CategorizerInput) =>
+    [...new Set(getCategorySlug(`${name} ${comment || ''}`).split(/[^a-z0-9]+/).filter(w => w.length > 1 && !/^\d+$/.test(w)))];
+
+// Naiv Bayes osztályozó a saját napló alapján. A tartalék kategória ("Egyéb") és a felosztott tételek nem tanítanak,
+// mert nem hordoznak egyértelmű kategóriát.
+const trainCategoryClassifier = (records: FinancialRecord[], ignoreCategory: string): CategoryClassifier => {
+    const model: CategoryClassifier = { docCounts: new Map(), tokenCounts: new Map(), tokenTotals: new Map(), vocabulary: new Set(), totalDocs: 0 };
+    for (const r of records) {
+        if (r.syncStatus === 'tombstone' || r.category === ignoreCategory || r.splits?.length) continue;
+        const counts = model.tokenCounts.get(r.category) ?? new Map<string, number>();
+        const tokens = categorizerTokens(r);
+        tokens.forEach(t => {
+            counts.set(t, (counts.get(t) ?? 0) + 1);
+            model.vocabulary.add(t);
+        });
+        model.tokenCounts.set(r.category, counts);
+        model.tokenTotals.set(r.category, (model.tokenTotals.get(r.category) ?? 0) + tokens.length);
+        model.docCounts.set(r.category, (model.docCounts.get(r.category) ?? 0) + 1);
+        model.totalDocs++;
+    }
+    return model;
+};
+
+const classifyCategory = (model: CategoryClassifier, input: CategorizerInput, allowed: string[]): CategorySuggestion | null => {
+    if (model.totalDocs < MIN_TRAINING_RECORDS) return null;
+    const tokens = categorizerTokens(input).filter(t => model.vocabulary.has(t));
+    if (tokens.length === 0) return null;
+    const scores = allowed.filter(c => model.docCounts.has(c)).map(category => {
+        const counts = model.tokenCounts.get(category)!;
+        const denominator = model.tokenTotals.get(category)! + SMOOTHING * model.vocabulary.size;
+        const score = tokens.reduce((sum, t) => sum + Math.log(((counts.get(t) ?? 0) + SMOOTHING) / denominator),
+            Math.log(model.docCounts.get(category)! / model.totalDocs));
+        return { category, score };
+    });
+    if (scores.length === 0) return null;
+    const max = Math.max(...scores.map(s => s.score));
+    const weights = scores.map(s => ({ category: s.category, weight: Math.exp(s.score - max) }));
+    const total = weights.reduce((sum, w) => sum + w.weight, 0);
+    const best = weights.reduce((a, b) => b.weight > a.weight ? b : a);
+    return { category: best.category, confidence: best.weight / total, source: 'history' };
+};
+
+// Felhasználói szabály: a név tartalmazza a mintát (ékezet- és kisbetű-függetlenül) és az összeg a megadott sávba esik
+const matchesCategoryRule = (rule: CategoryRule, input: CategorizerInput) => {
+    const pattern = getCategorySlug(rule.pattern.trim());
+    return (!pattern || getCategorySlug(input.name).includes(pattern))
+        && (rule.minAmount === undefined || input.amount >= rule.minAmount)
+        && (rule.maxAmount === undefined || input.amount <= rule.maxAmount)
+        && (!!pattern || rule.minAmount !== undefined || rule.maxAmount !== undefined);
+};
+
+// Először a szabályok döntenek (sorrendben az első illeszkedő), utána a napló alapján tanult osztályozó
+const createCategorizer = (rules: CategoryRule[], model: CategoryClassifier, categories: Category[]): Categorizer => {
+    const allowed = activeCategoryNames(categories);
+    const candidates = allowed.filter(c => c !== fallbackCategoryName(categories));
+    return (input) => {
+        const rule = rules.find(r => allowed.includes(r.category) && matchesCategoryRule(r, input));
+        if (rule) return { category: rule.category, confidence: 1, source: 'rule' };
+        return classifyCategory(model, input, candidates);
+    };
+};
+
+// --- SPLITS & TAGS ---
+// Felosztott tételnél a legnagyobb rész kategóriája lesz a tétel fő kategóriája (rendezés, régi nézetek)
+const primaryCategory = (splits: RecordSplit[]) => splits.reduce((a, b) => Math.abs(b.amount) > Math.abs(a.amount) ? b : a).category;
+
+const splitRemainder = (amount: number, splits: RecordSplit[]) => Math.round((amount - splits.reduce((sum, s) => sum + s.amount, 0)) * 100) / 100;
+
+const parseTags = (text: string) => [...new Set(text.split(/[,\s]+/).map(t => t.replace(/^#/, '').trim()).filter(Boolean))];
+
+// --- ATTACHMENTS ---
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+const ATTACHMENT_QUOTA_BYTES = 200 * 1024 * 1024;
+const THUMBNAIL_SIZE = 160;
+
+const isAttachmentType = (mimeType: string) => mimeType.startsWith('image/') || mimeType === 'application/pdf';
+
+const formatBytes = (bytes: number) => bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const attachmentUsage = (attachments: Attachment[]) => attachments.reduce((sum, a) => sum + a.size, 0);
+
+// Képekhez kis JPEG bélyegkép készül a listákhoz; PDF-nél és nem dekódolható képnél nincs
+const createThumbnail = async (file: Blob): Promise<Blob | undefined> => {
+    if (!file.type.startsWith('image/')) return undefined;
+    try {
+        const bitmap = await createImageBitmap(file);
+        const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+        canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+        canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+        bitmap.close();
+        return await new Promise<Blob | undefined>(resolve => canvas.toBlob(b => resolve(b ?? undefined), 'image/jpeg', 0.8));
+    } catch (e) {
+        console.error(e);
+        return undefined;
+    }
+};
+
+// Új csatolmány a fájltípus, a fájlméret és a teljes tárkeret ellenőrzésével; hiba esetén a felhasználónak szóló üzenettel dob
+const createAttachment = async (file: File, existing: Attachment[]): Promise<Attachment> => {
+    if (!isAttachmentType(file.type)) throw new Error('Csak kép vagy PDF csatolható.');
+    if (file.size > MAX_ATTACHMENT_BYTES) throw new Error(`A fájl túl nagy (legfeljebb ${formatBytes(MAX_ATTACHMENT_BYTES)}).`);
+    const used = attachmentUsage(existing);
+    if (used + file.size > ATTACHMENT_QUOTA_BYTES) throw new Error(`Betelt a csatolmányok tárhelye (${formatBytes(used)} / ${formatBytes(ATTACHMENT_QUOTA_BYTES)}).`);
+    return {
+        id: `att-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+        name: file.name,
+        mimeType: file.type,
+        size: file.size,
+        blob: file,
+        thumbnail: await createThumbnail(file),
+        createdAt: Date.now()
+    };
+};
+
+// --- CURRENCIES ---
+const isCurrencyCode = (code: string) => /^[A-Z]{3}$/.test(code);
+
+// Alap pénznemre váltott tétel (a felosztással együtt), vagy null, ha nincs árfolyam
+const toBaseRecord = (r: FinancialRecord, rates: ExchangeRate[]): FinancialRecord | null => {
+    const amount = convertToBase(r.amount, r.currency, rates);
+    if (amount === null) return null;
+    const factor = r.amount === 0 ? 1 : amount / r.amount;
+    return { ...r, amount, splits: r.splits?.map(s => ({ ...s, amount: s.amount * factor })) };
+};
+
+// Árfolyamok importja soronként ("EUR;395,2", "USD=362.5", "GBP 458") vagy JSON objektumként ({"EUR": 395.2})
+const parseExchangeRates = (text: string): ExchangeRate[] => {
+    const now = Date.now();
+    const trimmed = text.trim();
+    if (trimmed.startsWith('{')) {
+        return Object.entries(JSON.parse(trimmed) as Record<string, number>)
+            .map(([code, rate]) => ({ id: code.toUpperCase(), rate: Number(rate), updatedAt: now }))
+            .filter(r => isCurrencyCode(r.id) && r.rate > 0);
+    }
+    return trimmed.split(/\r?\n/)
+        .map(line => line.trim().match(/^([A-Za-z]{3})\s*[;=,:\s]\s*([\d\s]+(?:[.,]\d+)?)$/))
+        .filter((m): m is RegExpMatchArray => m !== null)
+        .map(m => ({ id: m[1].toUpperCase(), rate: parseFloat(m[2].replace(/\s/g, '').replace(',', '.')), updatedAt: now }))
+        .filter(r => r.rate > 0);
+};
+
+// --- STATEMENT IMPORT ---
+type StatementFormat = 'csv' | 'ofx' | 'camt';
+
+const detectStatementFormat = (text: string): StatementFormat => {
+    if (/<BkToCstmrStmt|camt\.053/i.test(text)) return 'camt';
+    if (/OFXHEADER|<OFX>/i.test(text)) return 'ofx';
+    return 'csv';
+};
+
+const detectCsvDelimiter = (firstLine: string) =>
+    [';', ',', '\t'].reduce((best, d) => firstLine.split(d).length > firstLine.split(best).length ? d : best, ';');
+
+// Idézőjeles mezőket, dupla idézőjelet és mezőn belüli sortörést is kezelő CSV olvasó
+const parseCsv = (text: string, delimiter: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    const input = text.replace(/^\uFEFF/, '');
+    for (let i = 0; i < input.length; i++) {
+        const c = input[i];
+        if (quoted) {
+            if (c === '"' && input[i + 1] === '"') { field += '"'; i++; }
+            else if (c === '"') quoted = false;
+            else field += c;
+        } else if (c === '"') {
+            quoted = true;
+        } else if (c === delimiter) {
+            row.push(field); field = '';
+        } else if (c === '\n' || c === '\r') {
+            if (c === '\r' && input[i + 1] === '\n') i++;
+            row.push(field); field = '';
+            if (row.some(f => f.trim() !== '')) rows.push(row);
+            row = [];
+        } else {
+            field += c;
+        }
+    }
+    row.push(field);
+    if (row.some(f => f.trim() !== '')) rows.push(row);
+    return rows;
+};
+
+const parseImportAmount = (value: string, decimalSeparator: ',' | '.') => {
+    const cleaned = value.replace(/[^\d,.\-+]/g, '');
+    const normalized = decimalSeparator === ','
+        ? cleaned.replace(/\./g, '').replace(',', '.')
+        : cleaned.replace(/,/g, '');
+    return parseFloat(normalized);
+};
+
+const parseImportDate = (value: string, format: CsvDateFormat) => {
+    const parts = value.trim().match(/\d+/g);
+    if (!parts || parts.length < 3) return null;
+    const [a, b, c] = parts.map(Number);
+    const [y, m, d] = format === 'DD.MM.YYYY' ? [c, b, a] : format === 'MM/DD/YYYY' ? [c, a, b] : [a, b, c];
+    if (!y || m < 1 || m > 12 || d < 1 || d > 31) return null;
+    return toIsoDate(new Date(Date.UTC(y, m - 1, d)));
+};
+
+const applyImportProfile = (rows: string[][], profile: ImportProfile): ImportedTransaction[] => (profile.hasHeader ? rows.slice(1) : rows)
+    .map(row => {
+        const date = parseImportDate(row[profile.columns.date] || '', profile.dateFormat);
+        const amount = parseImportAmount(row[profile.columns.amount] || '', profile.decimalSeparator);
+        if (!date || isNaN(amount)) return null;
+        return {
+            date,
+            amount,
+            name: (row[profile.columns.name] || '').trim() || 'Importált tétel',
+            comment: profile.columns.comment !== undefined ? (row[profile.columns.comment] || '').trim() : '',
+            currency: profile.columns.currency !== undefined ? (row[profile.columns.currency] || '').trim().toUpperCase() || BASE_CURRENCY : BASE_CURRENCY
+        };
+    })
+    .filter((t): t is ImportedTransaction => t !== null);
+
+// OFX/QFX: az SGML (záratlan tagek) és az XML változatot is olvassa
+const parseOfx = (text: string): ImportedTransaction[] => {
+    const tag = (block: string, name: string) => block.match(new RegExp(`<${name}>([^<\r\n]*)`, 'i'))?.[1].trim() || '';
+    const currency = tag(text, 'CURDEF') || BASE_CURRENCY;
+    return (text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || []).map(block => {
+        const posted = tag(block, 'DTPOSTED');
+        return {
+            date: `${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}`,
+            amount: parseFloat(tag(block, 'TRNAMT').replace(',', '.')),
+            name: tag(block, 'NAME') || tag(block, 'PAYEE') || 'Importált tétel',
+            comment: tag(block, 'MEMO'),
+            currency,
+            externalId: tag(block, 'FITID') || undefined
+        };
+    }).filter(t => /^\d{4}-\d{2}-\d{2}$/.test(t.date) && !isNaN(t.amount));
+};
+
+// ISO 20022 CAMT.053: a névteret figyelmen kívül hagyva, helyi elemnevek alapján olvassuk
+const parseCamt053 = (text: string): ImportedTransaction[] => {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    const children = (el: Element | Document, name: string) => Array.from(el.getElementsByTagNameNS('*', name));
+    const first = (el: Element, ...path: string[]): Element | undefined => {
+        let current: Element | undefined = el;
+        for (const name of path) current = current && children(current, name)[0];
+        return current;
+    };
+    return children(doc, 'Ntry').map(entry => {
+        const amountEl = first(entry, 'Amt');
+        const isDebit = first(entry, 'CdtDbtInd')?.textContent?.trim() === 'DBIT';
+        const amount = parseFloat(amountEl?.textContent || '');
+        const date = (first(entry, 'BookgDt', 'Dt') || first(entry, 'BookgDt', 'DtTm') || first(entry, 'ValDt', 'Dt'))?.textContent?.slice(0, 10) || '';
+        const party = first(entry, 'RltdPties', isDebit ? 'Cdtr' : 'Dbtr', 'Nm') || first(entry, 'RltdPties', 'Nm');
+        return {
+            date,
+            amount: isDebit ? -Math.abs(amount) : Math.abs(amount),
+            name: party?.textContent?.trim() || first(entry, 'AddtlNtryInf')?.textContent?.trim() || 'Importált tétel',
+            comment: children(entry, 'Ustrd').map(u => u.textContent?.trim()).filter(Boolean).join(' '),
+            currency: amountEl?.getAttribute('Ccy') || BASE_CURRENCY,
+            externalId: first(entry, 'AcctSvcrRef')?.textContent?.trim() || first(entry, 'NtryRef')?.textContent?.trim() || undefined
+        };
+    }).filter(t => /^\d{4}-\d{2}-\d{2}$/.test(t.date) && !isNaN(t.amount));
+};
+
+// Duplikátum: azonos banki azonosító, vagy azonos összeg és pénznem ±2 napon belül hasonló névvel
+const findDuplicate = (tx: ImportedTransaction, records: FinancialRecord[]) => records.find(r => {
+    if (tx.externalId && r.importId) return tx.externalId === r.importId;
+    if (r.amount !== tx.amount || (r.currency || BASE_CURRENCY) !== tx.currency) return false;
+    const dayDiff = Math.abs(Date.parse(r.date) - Date.parse(tx.date)) / 86400000;
+    if (dayDiff > 2) return false;
+    const a = normalizeName(r.name), b = normalizeName(tx.name);
+    return a === b || a.includes(b) || b.includes(a);
+});
+
+// --- EXPORT ---
+type ExportFormat = 'csv' | 'csv-hu' | 'json' | 'xlsx' | 'ofx' | 'bundle';
+
+const EXPORT_FORMATS: Record<ExportFormat, { label: string, extension: string, mime: string }> = {
+    'csv': { label: 'CSV (Excel, UTF-8)', extension: 'csv', mime: 'text/csv;charset=utf-8' },
+    'csv-hu': { label: 'CSV (magyar, pontosvesszős)', extension: 'csv', mime: 'text/csv;charset=utf-8' },
+    'json': { label: 'JSON', extension: 'json', mime: 'application/json' },
+    'xlsx': { label: 'Excel munkafüzet (XLSX)', extension: 'xlsx', mime: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+    'ofx': { label: 'OFX (banki könyvelőprogramokhoz)', extension: 'ofx', mime: 'application/x-ofx' },
+    'bundle': { label: 'Biztonsági mentés csatolmányokkal (ZIP)', extension: 'zip', mime: 'application/zip' }
+};
+
+// Exportba kerülő csatolmány a már beolvasott tartalmával (a ZIP készítése szinkron)
+type AttachmentFile = { attachment: Attachment; data: Uint8Array };
+
+const EXPORT_HEADERS = ["Dátum", "Név", "Összeg", "Pénznem", "Kategória", "Megjegyzés", "Címkék", "Felosztás"];
+
+const exportRow = (r: FinancialRecord) => [
+    r.date, r.name, r.amount, r.currency || BASE_CURRENCY, r.category, r.comment || '',
+    (r.tags || []).join(', '),
+    (r.splits || []).map(s => `${s.category}: ${s.amount}`).join('; ')
+] as const;
+
+// RFC 4180: az elválasztót, idézőjelet vagy sortörést tartalmazó mezők idézőjelbe kerülnek
+const escapeCsvField = (value: string, delimiter: string) =>
+    value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const toCsv = (records: FinancialRecord[], delimiter: ',' | ';') => {
+    const decimal = delimiter === ';' ? ',' : '.';
+    const lines = [EXPORT_HEADERS, ...records.map(r => exportRow(r).map(v => typeof v === 'number' ? String(v).replace('.', decimal) : v))]
+        .map(fields => fields.map(f => escapeCsvField(f, delimiter)).join(delimiter));
+    // BOM nélkül az Excel nem ismeri fel az UTF-8 ékezeteket
+    return '\uFEFF' + lines.join('\r\n') + '\r\n';
+};
+
+const toJson = (records: FinancialRecord[], range: { from: string, to: string }) => JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    baseCurrency: BASE_CURRENCY,
+    range,
+    records: records.map(({ id, date, name, amount, currency, category, comment, splits, tags, attachmentIds }) => ({
+        id, date, name, amount, currency: currency || BASE_CURRENCY, category, comment: comment || '', splits, tags, attachmentIds
+    }))
+}, null, 2);
+
+const escapeXml = (value: string) => value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array) => {
+    let crc = 0xFFFFFFFF;
+    for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+// Tömörítetlen (stored) ZIP konténer – az XLSX-hez és a mentéshez ennyi elég, így nem kell külön könyvtár
+const createZip = (files: { name: string, content: string | Uint8Array }[]) => {
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const file of files) {
+        const name = encoder.encode(file.name);
+        const data = typeof file.content === 'string' ? encoder.encode(file.content) : file.content;
+        const crc = crc32(data);
+
+        const local = new Uint8Array(30 + name.length);
+        const lv = new DataView(local.buffer);
+        lv.setUint32(0, 0x04034B50, true);
+        lv.setUint16(4, 20, true);
+        lv.setUint16(6, 0x0800, true); // UTF-8 fájlnevek
+        lv.setUint16(12, 0x0021, true); // 1980-01-01
+        lv.setUint32(14, crc, true);
+        lv.setUint32(18, data.length, true);
+        lv.setUint32(22, data.length, true);
+        lv.setUint16(26, name.length, true);
+        local.set(name, 30);
+
+        const entry = new Uint8Array(46 + name.length);
+        const cv = new DataView(entry.buffer);
+        cv.setUint32(0, 0x02014B50, true);
+        cv.setUint16(4, 20, true);
+        cv.setUint16(6, 20, true);
+        cv.setUint16(8, 0x0800, true);
+        cv.setUint16(14, 0x0021, true);
+        cv.setUint32(16, crc, true);
+        cv.setUint32(20, data.length, true);
+        cv.setUint32(24, data.length, true);
+        cv.setUint16(28, name.length, true);
+        cv.setUint32(42, offset, true);
+        entry.set(name, 46);
+
+        chunks.push(local, data);
+        central.push(entry);
+        offset += local.length + data.length;
+    }
+
+    const centralSize = central.reduce((sum, c) => sum + c.length, 0);
+    const end = new Uint8Array(22);
+    const ev = new DataView(end.buffer);
+    ev.setUint32(0, 0x06054B50, true);
+    ev.setUint16(8, files.length, true);
+    ev.setUint16(10, files.length, true);
+    ev.setUint32(12, centralSize, true);
+    ev.setUint32(16, offset, true);
+
+    return new Blob([...chunks, ...central, end] as BlobPart[]);
+};
+
+const toXlsx = (records: FinancialRecord[]) => {
+    const columns = 'ABCDEFGH';
+    const cell = (value: string | number, ref: string) => typeof value === 'number'
+        ? `<c r="${ref}"><v>${value}</v></c>`
+        : `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+    const rows = [EXPORT_HEADERS, ...records.map(exportRow)]
+        .map((fields, i) => `<row r="${i + 1}">${fields.map((f, j) => cell(f, `${columns[j]}${i + 1}`)).join('')}</row>`)
+        .join('');
+
+    return createZip([
+        { name: '[Content_Types].xml', content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>' },
+        { name: '_rels/.rels', content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>' },
+        { name: 'xl/workbook.xml', content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Napló" sheetId="1" r:id="rId1"/></sheets></workbook>' },
+        { name: 'xl/_rels/workbook.xml.rels', content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>' },
+        { name: 'xl/worksheets/sheet1.xml', content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rows}</sheetData></worksheet>` }
+    ]);
+};
+
+// Az OFX a devizás tételhez árfolyamot vár; ami nélküle forintként kerülne a kivonatba, az kimarad
+const recordsWithoutOfxRate = (records: FinancialRecord[], rates: ExchangeRate[]) =>
+    records.filter(r => r.currency && r.currency !== BASE_CURRENCY && !rates.some(x => x.id === r.currency));
+
+// OFX 2 kivonat; a nem alapdevizás tételek az ismert árfolyammal kerülnek bele
+const toOfx = (records: FinancialRecord[], rates: ExchangeRate[], range: { from: string, to: string }) => {
+    const ofxDate = (date: string) => date.replace(/-/g, '');
+    const skipped = recordsWithoutOfxRate(records, rates);
+    const transactions = records.filter(r => !skipped.includes(r)).map(r => {
+        const rate = r.currency && r.currency !== BASE_CURRENCY ? rates.find(x => x.id === r.currency) : undefined;
+        return `<STMTTRN><TRNTYPE>${r.amount >= 0 ? 'CREDIT' : 'DEBIT'}</TRNTYPE><DTPOSTED>${ofxDate(r.date)}</DTPOSTED><TRNAMT>${r.amount}</TRNAMT><FITID>${escapeXml(r.importId || r.id)}</FITID><NAME>${escapeXml(r.name.slice(0, 32))}</NAME>`
+            + (r.comment ? `<MEMO>${escapeXml(r.comment)}</MEMO>` : '')
+            + (rate ? `<CURRENCY><CURRATE>${rate.rate}</CURRATE><CURSYM>${rate.id}</CURSYM></CURRENCY>` : '')
+            + '</STMTTRN>';
+    }).join('\n');
+
+    return `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>
+<OFX><BANKMSGSRSV1><STMTTRNRS><TRNUID>1</TRNUID><STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>
+<STMTRS><CURDEF>${BASE_CURRENCY}</CURDEF><BANKACCTFROM><BANKID>HERWINNER</BANKID><ACCTID>LEDGER</ACCTID><ACCTTYPE>CHECKING</ACCTTYPE></BANKACCTFROM>
+<BANKTRANLIST><DTSTART>${ofxDate(range.from)}</DTSTART><DTEND>${ofxDate(range.to)}</DTEND>
+${transactions}
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>
+`;
+};
+
+// Mentés: a JSON export, a csatolmányok jegyzéke és maguk a fájlok egy ZIP-ben
+const toBundle = (records: FinancialRecord[], range: { from: string, to: string }, files: AttachmentFile[]) => {
+    const path = (a: Attachment) => `attachments/${a.id}-${a.name.replace(/[\\/:*?"<>|]/g, '_')}`;
+    const manifest = files.map(({ attachment: a }) => ({ id: a.id, name: a.name, mimeType: a.mimeType, size: a.size, createdAt: a.createdAt, path: path(a) }));
+    return createZip([
+        { name: 'herwinner.json', content: toJson(records, range) },
+        { name: 'attachments.json', content: JSON.stringify(manifest, null, 2) },
+        ...files.map(({ attachment, data }) => ({ name: path(attachment), content: data }))
+    ]);
+};
+
+const buildExport = (format: ExportFormat, records: FinancialRecord[], rates: ExchangeRate[], range: { from: string, to: string }, attachmentFiles: AttachmentFile[] = []) => {
+    const { mime } = EXPORT_FORMATS[format];
+    switch (format) {
+        case 'csv': return new Blob([toCsv(records, ',')], { type: mime });
+        case 'csv-hu': return new Blob([toCsv(records, ';')], { type: mime });
+        case 'json': return new Blob([toJson(records, range)], { type: mime });
+        case 'xlsx': return toXlsx(records);
+        case 'ofx': return new Blob([toOfx(records, rates, range)], { type: mime });
+        case 'bundle': return toBundle(records, range, attachmentFiles);
+    }
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.setAttribute("href", url);
+    link.setAttribute("download", fileName);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    // A letöltés a kattintás után indul el, ezért az URL-t csak később szabad visszavonni
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// --- LEDGER QUERY ---
+const QUERY_KEYS: Record<string, keyof LedgerFilter> = {
+    cat: 'categories', kat: 'categories', category: 'categories', 'kategória': 'categories',
+    amount: 'amounts', 'összeg': 'amounts',
+    date: 'dateFrom', 'dátum': 'dateFrom',
+    type: 'direction', 'típus': 'direction',
+    status: 'syncStatus', 'állapot': 'syncStatus',
+    comment: 'comment', note: 'comment', megj: 'comment',
+    tag: 'tags', 'címke': 'tags'
+};
+
+const DIRECTION_ALIASES: Record<string, LedgerFilter['direction']> = {
+    income: 'income', 'bevétel': 'income', in: 'income',
+    expense: 'expense', 'kiadás': 'expense', out: 'expense'
+};
+
+const SORT_LABELS: Record<LedgerSortKey, string> = { date: 'Dátum', name: 'Név', category: 'Kategória', amount: 'Összeg' };
+
+const QUERY_TOKEN = /([\p{L}]+)(<=|>=|:|<|>|=)((?:"[^"]*"|[^\s"])*)|"([^"]*)"|(\S+)/gu;
+
+const emptyLedgerFilter = (): LedgerFilter => ({ text: [], categories: [], amounts: [], direction: 'all', tags: [] });
+
+const addDays = (date: string, delta: number) => {
+    const [y, m, d] = date.split('-').map(Number);
+    return toIsoDate(new Date(Date.UTC(y, m - 1, d + delta)));
+};
+
+const applyDateTerm = (filter: LedgerFilter, op: string, value: string) => {
+    const [startValue, endValue] = value.includes('..') ? value.split('..') : [value, value];
+    const start = startValue ? dateSpan(startValue) : null;
+    const end = endValue ? dateSpan(endValue) : null;
+    if ((startValue && !start) || (endValue && !end)) return false;
+    if (op === ':' || op === '=') {
+        filter.dateFrom = start?.[0];
+        filter.dateTo = end?.[1];
+    }
+    else if (op === '>=') filter.dateFrom = start![0];
+    else if (op === '>') filter.dateFrom = addDays(end![1], 1);
+    else if (op === '<=') filter.dateTo = end![1];
+    else if (op === '<') filter.dateTo = addDays(start![0], -1);
+    return true;
+};
+
+// Lekérdezés szintaxis: szabad szöveg, valamint kulcs:érték feltételek, pl.
+// cat:Étel,Utazás amount<-5000 date:2026-09 type:kiadás status:pending tag:nyaralás comment:"céges számla"
+const parseLedgerQuery = (query: string): LedgerFilter => {
+    const filter = emptyLedgerFilter();
+    for (const [whole, rawKey, op, rawValue, quoted, word] of query.matchAll(QUERY_TOKEN)) {
+        if (!rawKey) {
+            filter.text.push(quoted ?? word);
+            continue;
+        }
+        const key = QUERY_KEYS[rawKey.toLowerCase()];
+        const value = rawValue.replace(/"/g, '');
+        let understood = !!key && !!value;
+        if (understood) {
+            switch (key) {
+                case 'categories':
+                    filter.categories.push(...value.split(',').filter(Boolean));
+                    break;
+                case 'tags':
+                    filter.tags.push(...parseTags(value));
+                    break;
+                case 'amounts': {
+                    const amount = parseFloat(value.replace(',', '.'));
+                    understood = !isNaN(amount);
+                    if (understood) filter.amounts.push({ op: op === ':' ? '=' : op as AmountOperator, value: amount });
+                    break;
+                }
+                case 'dateFrom':
+                    understood = applyDateTerm(filter, op, value);
+                    break;
+                case 'direction':
+                    understood = !!DIRECTION_ALIASES[value.toLowerCase()];
+                    if (understood) filter.direction = DIRECTION_ALIASES[value.toLowerCase()];
+                    break;
+                case 'syncStatus':
+                    understood = ['synced', 'pending', 'conflict'].includes(value.toLowerCase());
+                    if (understood) filter.syncStatus = value.toLowerCase() as SyncStatus;
+                    break;
+                case 'comment':
+                    filter.comment = value;
+                    break;
+            }
+        }
+        if (!understood) filter.text.push(whole);
+    }
+    return filter;
+};
+
+const quoteQueryValue = (value: string) => /[\s"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+
+// A szűrőpanel állapotát visszaírja lekérdezés szöveggé, így a kettő mindig szinkronban marad
+const formatLedgerQuery = (filter: LedgerFilter) => {
+    const terms = filter.text.map(quoteQueryValue);
+    if (filter.categories.length) terms.push(`cat:${quoteQueryValue(filter.categories.join(','))}`);
+    if (filter.tags.length) terms.push(`tag:${filter.tags.join(',')}`);
+    if (filter.dateFrom || filter.dateTo) {
+        const month = filter.dateFrom?.slice(0, 7);
+        const wholeMonth = month && dateSpan(month);
+        if (wholeMonth && wholeMonth[0] === filter.dateFrom && wholeMonth[1] === filter.dateTo) terms.push(`date:${month}`);
+        else if (filter.dateFrom === filter.dateTo) terms.push(`date:${filter.dateFrom}`);
+        else if (filter.dateFrom && filter.dateTo) terms.push(`date:${filter.dateFrom}..${filter.dateTo}`);
+        else terms.push(filter.dateFrom ? `date>=${filter.dateFrom}` : `date<=${filter.dateTo}`);
+    }
+    filter.amounts.forEach(a => terms.push(`amount${a.op}${a.value}`));
+    if (filter.direction !== 'all') terms.push(`type:${filter.direction}`);
+    if (filter.syncStatus) terms.push(`status:${filter.syncStatus}`);
+    if (filter.comment) terms.push(`comment:${quoteQueryValue(filter.comment)}`);
+    return terms.join(' ');
+};
+
+const compareAmount = (amount: number, { op, value }: { op: AmountOperator, value: number }) => {
+    switch (op) {
+        case '<': return amount < value;
+        case '<=': return amount <= value;
+        case '>': return amount > value;
+        case '>=': return amount >= value;
+        case '=': return amount === value;
+    }
+};
+
+// Az összeg feltételek alap pénznemben értendők, ha van árfolyam; különben az eredeti összegre vonatkoznak
+const matchesLedgerFilter = (r: FinancialRecord, filter: LedgerFilter, rates: ExchangeRate[]) => {
+    const amount = convertToBase(r.amount, r.currency, rates) ?? r.amount;
+    const categories = recordParts(r).map(p => p.category.toLowerCase());
+    const tags = (r.tags || []).map(t => t.toLowerCase());
+    const haystack = `${r.name} ${categories.join(' ')} ${tags.map(t => `#${t}`).join(' ')} ${r.comment || ''}`.toLowerCase();
+    return filter.text.every(t => haystack.includes(t.toLowerCase()))
+        && (filter.categories.length === 0 || filter.categories.some(c => categories.includes(c.toLowerCase())))
+        && (filter.tags.length === 0 || filter.tags.some(t => tags.includes(t.toLowerCase())))
+        && (!filter.dateFrom || r.date >= filter.dateFrom)
+        && (!filter.dateTo || r.date <= filter.dateTo)
+        && filter.amounts.every(a => compareAmount(amount, a))
+        && (filter.direction === 'all' || (filter.direction === 'income' ? r.amount >= 0 : r.amount < 0))
+        && (!filter.syncStatus || r.syncStatus === filter.syncStatus)
+        && (!filter.comment || (r.comment || '').toLowerCase().includes(filter.comment.toLowerCase()));
+};
+
+const sortLedger = (records: FinancialRecord[], sort: LedgerSort, rates: ExchangeRate[]) => {
+    const value = (r: FinancialRecord) => sort.key === 'amount' ? (convertToBase(r.amount, r.currency, rates) ?? r.amount) : r[sort.key];
+    const direction = sort.dir === 'asc' ? 1 : -1;
+    return [...records].sort((a, b) => {
+        const va = value(a), vb = value(b);
+        const result = typeof va === 'number' ? va - (vb as number) : String(va).localeCompare(String(vb), 'hu');
+        return (result || b.date.localeCompare(a.date)) * direction;
+    });
+};
+
+// --- BUDGETS ---
+const TOTAL_BUDGET = '*';
+
+const formatMonth = (month: string) => {
+    const [y, m] = month.split('-').map(Number);
+    return new Date(Date.UTC(y, m - 1, 1)).toLocaleDateString('hu-HU', { year: 'numeric', month: 'long', timeZone: 'UTC' });
+};
+
+// Kategória keretnél a felosztott tételeknek csak a kategóriába eső része számít
+const monthlySpending = (records: FinancialRecord[], month: string, category: string) => Math.abs(records
+    .filter(r => monthOf(r.date) === month)
+    .flatMap(r => category === TOTAL_BUDGET ? [r] : recordParts(r).filter(p => p.category === category))
+    .filter(p => p.amount < 0)
+    .reduce((acc, p) => acc + p.amount, 0));
+
+// Az adott hónapra érvényes keret: a hónapra szóló felülírás, különben az alapértelmezett
+const effectiveBudget = (budgets: Budget[], category: string, month: string) =>
+    budgets.find(b => b.category === category && b.month === month)
+    ?? budgets.find(b => b.category === category && !b.month && b.startMonth <= month);
+
+// Keret állapota a hónapban. Átvitelnél az előző hónapok el nem költött maradéka (a kezdő hónaptól) hozzáadódik a kerethez.
+const budgetStatus = (budgets: Budget[], records: FinancialRecord[], category: string, month: string) => {
+    const budget = effectiveBudget(budgets, category, month);
+    if (!budget) return null;
+    const base = budgets.find(b => b.category === category && !b.month);
+    let carried = 0;
+    if (base?.carryOver) {
+        for (let m = base.startMonth; m < month; m = shiftMonth(m, 1)) {
+            const limit = effectiveBudget(budgets, category, m)?.amount ?? 0;
+            carried = Math.max(0, carried + limit - monthlySpending(records, m, category));
+        }
+    }
+    const limit = budget.amount + carried;
+    const spent = monthlySpending(records, month, category);
+    const percent = limit > 0 ? (spent / limit) * 100 : spent > 0 ? 100 : 0;
+    return { budget, limit, carried, spent, remaining: limit - spent, percent };
+};
+
+const budgetBarClass = (percent: number, warnAt: number) => percent >= 100 ? 'danger' : percent >= warnAt ? 'warning' : '';
+
+// --- ANALYTICS ---
+// Az elemzések alap pénznemre váltott tételeken dolgoznak (lásd toBaseRecord)
+const CHART_MONTHS = 6;
+
+// Havi kiadások kategóriánként; a felosztott tételek részei a saját kategóriájukba számítanak
+const spendingByCategory = (records: FinancialRecord[], month: string) => {
+    const totals = new Map<string, number>();
+    records
+        .filter(r => monthOf(r.date) === month)
+        .flatMap(recordParts)
+        .filter(p => p.amount < 0)
+        .forEach(p => totals.set(p.category, (totals.get(p.category) ?? 0) - p.amount));
+    return [...totals.entries()].map(([category, amount]) => ({ category, amount })).sort((a, b) => b.amount - a.amount);
+};
+
+const monthlyTotals = (records: FinancialRecord[], month: string, count: number) => monthsEndingAt(month, count).map(m => {
+    const monthRecords = records.filter(r => monthOf(r.date) === m);
+    return {
+        month: m,
+        income: monthRecords.filter(r => r.amount > 0).reduce((sum, r) => sum + r.amount, 0),
+        expense: -monthRecords.filter(r => r.amount < 0).reduce((sum, r) => sum + r.amount, 0)
+    };
+});
+
+// Halmozott egyenleg az egyes hónapok végén, a napló legelső tételétől számolva
+const runningBalance = (records: FinancialRecord[], month: string, count: number) => monthsEndingAt(month, count).map(m => ({
+    month: m,
+    balance: records.filter(r => monthOf(r.date) <= m).reduce((sum, r) => sum + r.amount, 0)
+}));
+
+// Kategóriánkénti kiadás az előző hónaphoz képest, a legnagyobb változással elöl
+const compareWithPreviousMonth = (records: FinancialRecord[], month: string) => {
+    const current = new Map(spendingByCategory(records, month).map(s => [s.category, s.amount]));
+    const previous = new Map(spendingByCategory(records, shiftMonth(month, -1)).map(s => [s.category, s.amount]));
+    return [...new Set([...current.keys(), ...previous.keys()])]
+        .map(category => ({ category, current: current.get(category) ?? 0, previous: previous.get(category) ?? 0 }))
+        .map(c => ({ ...c, change: c.current - c.previous }))
+        .sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+};
+
+// --- HEALTH SCORE ---
+// Minden összetevő 0–100 pontos; az adat nélküli összetevők kimaradnak, a többi súlya arányosan nő
+const HEALTH_COMPONENTS: HealthComponentKey[] = ['savings', 'budget', 'volatility', 'emergency', 'trend'];
+
+const HEALTH_LABELS: Record<HealthComponentKey, string> = {
+    savings: 'Megtakarítási ráta',
+    budget: 'Költségkeretek betartása',
+    volatility: 'Kiadások kiszámíthatósága',
+    emergency: 'Vésztartalék',
+    trend: 'Kiadási trend'
+};
+
+const DEFAULT_HEALTH_WEIGHTS: HealthWeights = { id: 'weights', savings: 30, budget: 20, volatility: 15, emergency: 25, trend: 10 };
+
+const HEALTH_TARGET_SAVINGS_RATE = 0.2;
+const HEALTH_TARGET_RESERVE_MONTHS = 6;
+
+const clampScore = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const healthComponent = (key: HealthComponentKey, records: FinancialRecord[], budgets: Budget[], month: string): HealthComponent => {
+    const recent = monthlyTotals(records, month, 3);
+    const halfYear = monthlyTotals(records, month, 6);
+    const spendingMonths = halfYear.map(m => m.expense).filter(e => e > 0);
+
+    if (key === 'savings') {
+        // Három hónap együtt számít, így egy kiugró bevétel nem viszi fel egyből a pontszámot
+        const income = recent.reduce((sum, m) => sum + m.income, 0);
+        const expense = recent.reduce((sum, m) => sum + m.expense, 0);
+        if (income <= 0) return { key, score: null, detail: 'Nincs bevétel az elmúlt 3 hónapban.' };
+        const rate = (income - expense) / income;
+        return { key, score: clampScore((rate / HEALTH_TARGET_SAVINGS_RATE) * 100), detail: `Az elmúlt 3 hónap megtakarítási rátája ${(rate * 100).toFixed(1)}% (${HEALTH_TARGET_SAVINGS_RATE * 100}% felett teljes pont).` };
+    }
+    if (key === 'budget') {
+        const statuses = [...new Set(budgets.map(b => b.category))]
+            .map(category => budgetStatus(budgets, records, category, month))
+            .filter((st): st is NonNullable<typeof st> => st !== null);
+        if (statuses.length === 0) return { key, score: null, detail: 'Nincs beállított költségkeret.' };
+        const kept = statuses.filter(st => st.percent <= 100).length;
+        // Túllépésnél minden százalékpont két pontot von le
+        return { key, score: clampScore(average(statuses.map(st => st.percent <= 100 ? 100 : 100 - (st.percent - 100) * 2))), detail: `${statuses.length} keretből ${kept} tartva a hónapban.` };
+    }
+    if (key === 'volatility') {
+        if (spendingMonths.length < 3) return { key, score: null, detail: 'Legalább 3 hónapnyi kiadás szükséges.' };
+        const mean = average(spendingMonths);
+        const variation = Math.sqrt(average(spendingMonths.map(e => (e - mean) ** 2))) / mean;
+        return { key, score: clampScore(100 - variation * 200), detail: `A havi kiadások szórása az átlag ${(variation * 100).toFixed(0)}%-a (utolsó 6 hónap).` };
+    }
+    if (key === 'emergency') {
+        if (spendingMonths.length === 0) return { key, score: null, detail: 'Nincs kiadás az elmúlt 6 hónapban.' };
+        const balance = runningBalance(records, month, 1)[0].balance;
+        const coverage = balance / average(spendingMonths);
+        return { key, score: clampScore((coverage / HEALTH_TARGET_RESERVE_MONTHS) * 100), detail: `A hó végi egyenleg ${coverage.toFixed(1)} havi átlagos kiadást fedez (${HEALTH_TARGET_RESERVE_MONTHS} hónap felett teljes pont).` };
+    }
+    const earlier = halfYear.slice(0, 3).map(m => m.expense).filter(e => e > 0);
+    const later = halfYear.slice(3).map(m => m.expense).filter(e => e > 0);
+    if (earlier.length === 0 || later.length === 0) return { key, score: null, detail: 'Legalább fél évnyi kiadás szükséges.' };
+    const change = (average(later) - average(earlier)) / average(earlier);
+    // Változatlan kiadás 50 pont; 20% csökkenés teljes, 20% növekedés nulla pont
+    return { key, score: clampScore(50 - change * 250), detail: `Az utolsó 3 hónap átlagos kiadása ${change >= 0 ? '+' : ''}${(change * 100).toFixed(0)}% az előző 3 hónaphoz képest.` };
+};
+
+const computeHealthScore = (records: FinancialRecord[], budgets: Budget[], weights: HealthWeights, month: string) => {
+    const components = HEALTH_COMPONENTS.map(key => healthComponent(key, records, budgets, month));
+    const scored = components.filter(c => c.score !== null && weights[c.key] > 0);
+    const totalWeight = scored.reduce((sum, c) => sum + weights[c.key], 0);
+    const score = totalWeight > 0 ? Math.round(scored.reduce((sum, c) => sum + c.score! * weights[c.key], 0) / totalWeight) : null;
+    return { score, components, totalWeight };
+};
+
+// --- AI REQUESTS ---
+// A kategória csak a nyilvántartásban szereplő (nem archivált) nevek egyike lehet
+// A nyilvántartás betöltése előtt az alapértelmezett kategóriák közül választhat
+const toolCategoryEnum = (categoryNames: string[]) => categoryNames.length ? categoryNames : DEFAULT_CATEGORIES.map(c => c.name);
+
+const buildAddRecordTool = (categoryNames: string[]): FunctionDeclaration => ({
+  name: 'add_financial_record',
+  parameters: {
+    type: Type.OBJECT,
+    description: 'Pénzügyi tétel rögzítése.',
+    properties: {
+      name: { type: Type.STRING },
+      amount: { type: Type.NUMBER },
+      category: { type: Type.STRING, format: 'enum', enum: toolCategoryEnum(categoryNames) },
+      comment: { type: Type.STRING },
+    },
+    required: ['name', 'amount']
+  }
+});
+
+// Író eszközök: minden hívás jóváhagyó kártyát nyit, a napló csak a felhasználó megerősítése után változik
+const buildRecordTools = (categoryNames: string[]): FunctionDeclaration[] => [
+  buildAddRecordTool(categoryNames),
+  {
+    name: 'update_financial_record',
+    description: 'Meglévő tétel módosítása az azonosítója alapján (lásd find_records). Csak a megadott mezők változnak.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        id: { type: Type.STRING },
+        name: { type: Type.STRING },
+        amount: { type: Type.NUMBER, description: 'Kiadásnál negatív.' },
+        category: { type: Type.STRING, format: 'enum', enum: toolCategoryEnum(categoryNames) },
+        comment: { type: Type.STRING },
+        date: { type: Type.STRING, description: 'ÉÉÉÉ-HH-NN' }
+      },
+      required: ['id']
+    }
+  },
+  {
+    name: 'delete_financial_record',
+    description: 'Tétel törlése az azonosítója alapján (lásd find_records).',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { id: { type: Type.STRING } },
+      required: ['id']
+    }
+  },
+  {
+    name: 'set_budget',
+    description: `Havi költségkeret beállítása egy kategóriára, vagy '${TOTAL_BUDGET}' esetén a teljes havi keretre. Hónap nélkül minden hónapra érvényes.`,
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        category: { type: Type.STRING, format: 'enum', enum: [TOTAL_BUDGET, ...toolCategoryEnum(categoryNames)] },
+        amount: { type: Type.NUMBER, description: 'A keret összege (HUF).' },
+        month: { type: Type.STRING, description: 'ÉÉÉÉ-HH, ha csak egy hónapra szól.' },
+        warnAt: { type: Type.NUMBER, description: 'Figyelmeztetés ennél a felhasználtságnál (%).' }
+      },
+      required: ['category', 'amount']
+    }
+  }
+];
+
+// Napló lekérdező eszközök. A modell nem kapja meg a teljes naplót, csak az eszközökkel kért összesítéseket és tételeket látja.
+const QUERY_RECORDS_LIMIT = 50;
+const MAX_TOOL_ROUNDS = 5;
+
+type LedgerToolContext = { records: FinancialRecord[]; rates: ExchangeRate[] };
+
+const periodProperties = (suffix = '') => ({
+  [`dateFrom${suffix}`]: { type: Type.STRING, description: 'Kezdő dátum (ÉÉÉÉ-HH-NN), beleértve.' },
+  [`dateTo${suffix}`]: { type: Type.STRING, description: 'Záró dátum (ÉÉÉÉ-HH-NN), beleértve.' }
+});
+
+const LEDGER_QUERY_TOOLS: FunctionDeclaration[] = [
+  {
+    name: 'query_records',
+    description: `Naplótételek keresése. A legfrissebb tételekkel kezdve legfeljebb ${QUERY_RECORDS_LIMIT} tételt ad vissza, az összes találat számával és összegével (HUF).`,
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        ...periodProperties(),
+        category: { type: Type.STRING },
+        text: { type: Type.STRING, description: 'Keresett szöveg a névben, címkékben vagy megjegyzésben.' },
+        direction: { type: Type.STRING, format: 'enum', enum: ['all', 'income', 'expense'] },
+        minAmount: { type: Type.NUMBER, description: 'Legkisebb abszolút összeg (HUF).' },
+        maxAmount: { type: Type.NUMBER, description: 'Legnagyobb abszolút összeg (HUF).' },
+        limit: { type: Type.INTEGER }
+      }
+    }
+  },
+  {
+    name: 'find_records',
+    description: 'Egy konkrét tétel megkeresése módosításhoz vagy törléshez. A legjobban illeszkedő legfeljebb 10 tételt adja vissza az azonosítójukkal.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        name: { type: Type.STRING },
+        date: { type: Type.STRING, description: 'ÉÉÉÉ-HH-NN; a ±3 napon belüli tételek is illeszkednek.' },
+        amount: { type: Type.NUMBER, description: 'Az összeg abszolút értéke.' },
+        category: { type: Type.STRING }
+      }
+    }
+  },
+  {
+    name: 'sum_by_category',
+    description: 'Kategóriánkénti összesítés egy időszakra (HUF). A felosztott tételek részei a saját kategóriájukba számítanak.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        ...periodProperties(),
+        direction: { type: Type.STRING, format: 'enum', enum: ['expense', 'income'] }
+      },
+      required: ['dateFrom', 'dateTo']
+    }
+  },
+  {
+    name: 'compare_periods',
+    description: 'Két időszak (A és B) bevételének, kiadásának és kategóriánkénti kiadásának összevetése (HUF).',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        ...periodProperties('A'),
+        ...periodProperties('B'),
+        category: { type: Type.STRING, description: 'Csak ennek a kategóriának a tételei.' }
+      },
+      required: ['dateFromA', 'dateToA', 'dateFromB', 'dateToB']
+    }
+  }
+];
+
+const isLedgerQueryTool = (name?: string) => LEDGER_QUERY_TOOLS.some(t => t.name === name);
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+const baseRecordsBetween = (ctx: LedgerToolContext, dateFrom?: string, dateTo?: string, category?: string) => ctx.records
+  .filter(r => matchesLedgerFilter(r, { ...emptyLedgerFilter(), dateFrom, dateTo, categories: category ? [category] : [] }, ctx.rates))
+  .map(r => toBaseRecord(r, ctx.rates))
+  .filter((r): r is FinancialRecord => r !== null);
+
+const sumParts = (records: FinancialRecord[], direction: 'income' | 'expense') => {
+  const totals = new Map<string, { amount: number; count: number }>();
+  records.flatMap(recordParts)
+    .filter(p => direction === 'income' ? p.amount > 0 : p.amount < 0)
+    .forEach(p => {
+      const entry = totals.get(p.category) ?? { amount: 0, count: 0 };
+      totals.set(p.category, { amount: entry.amount + Math.abs(p.amount), count: entry.count + 1 });
+    });
+  return [...totals.entries()]
+    .map(([category, t]) => ({ category, amount: roundAmount(t.amount), count: t.count }))
+    .sort((a, b) => b.amount - a.amount);
+};
+
+const periodSummary = (ctx: LedgerToolContext, dateFrom: string, dateTo: string, category?: string) => {
+  const records = baseRecordsBetween(ctx, dateFrom, dateTo, category);
+  const income = records.filter(r => r.amount > 0).reduce((sum, r) => sum + r.amount, 0);
+  const expense = -records.filter(r => r.amount < 0).reduce((sum, r) => sum + r.amount, 0);
+  return { dateFrom, dateTo, count: records.length, income: roundAmount(income), expense: roundAmount(expense), net: roundAmount(income - expense), expenseByCategory: sumParts(records, 'expense') };
+};
+
+// A visszaadott tételek a seen táblába kerülnek, hogy a válasz hivatkozásai feloldhatók legyenek
+const runLedgerTool = (call: FunctionCall, ctx: LedgerToolContext, seen: Map<string, FinancialRecord>): Record<string, unknown> => {
+  const args = (call.args || {}) as any;
+  switch (call.name) {
+    case 'query_records': {
+      const filter = { ...emptyLedgerFilter(), dateFrom: args.dateFrom, dateTo: args.dateTo, categories: args.category ? [args.category] : [], text: args.text ? [args.text] : [], direction: args.direction || 'all' };
+      const matches = ctx.records
+        .filter(r => matchesLedgerFilter(r, filter, ctx.rates))
+        .map(r => toBaseRecord(r, ctx.rates))
+        .filter((r): r is FinancialRecord => r !== null)
+        .filter(r => (args.minAmount === undefined || Math.abs(r.amount) >= args.minAmount) && (args.maxAmount === undefined || Math.abs(r.amount) <= args.maxAmount))
+        .sort((a, b) => b.date.localeCompare(a.date));
+      const returned = matches.slice(0, Math.min(QUERY_RECORDS_LIMIT, Math.max(1, args.limit || 20)));
+      returned.forEach(r => seen.set(r.id, r));
+      return {
+        count: matches.length,
+        total: roundAmount(matches.reduce((sum, r) => sum + r.amount, 0)),
+        records: returned.map(r => ({ id: r.id, date: r.date, name: r.name, amount: roundAmount(r.amount), category: r.category, splits: r.splits, tags: r.tags, comment: r.comment || undefined }))
+      };
+    }
+    case 'find_records': {
+      const name = args.name ? normalizeName(args.name) : '';
+      const scored = ctx.records.map(r => {
+        let score = 0;
+        const recordName = normalizeName(r.name);
+        if (name) score += recordName === name ? 3 : recordName.includes(name) || name.includes(recordName) ? 2 : 0;
+        if (args.date) {
+          const dayDiff = Math.abs(Date.parse(r.date) - Date.parse(args.date)) / 86400000;
+          score += dayDiff === 0 ? 2 : dayDiff <= 3 ? 1 : 0;
+        }
+        if (args.amount !== undefined) {
+          const diff = Math.abs(Math.abs(r.amount) - Math.abs(args.amount));
+          score += diff === 0 ? 2 : diff <= Math.abs(args.amount) * 0.1 ? 1 : 0;
+        }
+        if (args.category && recordParts(r).some(p => p.category.toLowerCase() === String(args.category).toLowerCase())) score += 1;
+        return { r, score };
+      });
+      const found = scored
+        .filter(x => x.score > 0)
+        .sort((a, b) => b.score - a.score || b.r.date.localeCompare(a.r.date))
+        .slice(0, 10)
+        .map(x => x.r);
+      found.forEach(r => seen.set(r.id, r));
+      return { records: found.map(r => ({ id: r.id, date: r.date, name: r.name, amount: r.amount, currency: r.currency || BASE_CURRENCY, category: r.category, comment: r.comment || undefined })) };
+    }
+    case 'sum_by_category': {
+      const direction = args.direction === 'income' ? 'income' : 'expense';
+      const categories = sumParts(baseRecordsBetween(ctx, args.dateFrom, args.dateTo), direction);
+      return { dateFrom: args.dateFrom, dateTo: args.dateTo, direction, total: roundAmount(categories.reduce((sum, c) => sum + c.amount, 0)), categories };
+    }
+    case 'compare_periods': {
+      const a = periodSummary(ctx, args.dateFromA, args.dateToA, args.category);
+      const b = periodSummary(ctx, args.dateFromB, args.dateToB, args.category);
+      return { a, b, change: { income: roundAmount(b.income - a.income), expense: roundAmount(b.expense - a.expense), net: roundAmount(b.net - a.net) } };
+    }
+    default:
+      return { error: `Ismeretlen eszköz: ${call.name}` };
+  }
+};
+
+// A modell [#azonosító] formában hivatkozik a lekérdezett tételekre; ezeket olvasható hivatkozásra cseréljük
+const resolveRecordCitations = (text: string, seen: Map<string, FinancialRecord>) =>
+  text.replace(/\s?\[#([^\]\s]+)\]/g, (_, id: string) => {
+    const r = seen.get(id);
+    return r ? ` _(${r.date} · ${r.name} · ${formatCurrency(r.amount)})_` : '';
+  });
+
+const ledgerToolInstruction = (citations = true) => `A napló adataihoz csak a query_records, find_records, sum_by_category és compare_periods eszközökkel férsz hozzá; kizárólag az így kapott adatokra támaszkodj. `
+  + `Tétel módosítása vagy törlése előtt a find_records eszközzel keresd meg az azonosítóját. Az író eszközök eredményét a felhasználó jóváhagyása után kapod meg. `
+  + (citations ? `Ha egy konkrét tételre hivatkozol, írd utána az azonosítóját [#azonosító] formában. ` : '')
+  + `Az összegek forintban értendők, a kiadások negatívak. Ma ${toIsoDate(new Date())} van.`;
+
+// Az olvasó eszközhívásokat helyben válaszoljuk meg, amíg a modell szöveges választ nem ad (legfeljebb MAX_TOOL_ROUNDS körben).
+// Az írási hívások (pl. add_financial_record) a felhasználó jóváhagyására várnak, ezért összegyűjtve visszaadjuk őket;
+// ha olvasó hívással együtt érkeznek, a modell addig csak annyit kap, hogy jóváhagyásra várnak.
+// A contents a teljes beszélgetés a modell utolsó körével; megválaszolatlan olvasó hívás esetén ez a kör kimarad.
+const generateWithLedgerTools = async (ai: GoogleGenAI, contents: Content[], config: GenerateContentConfig, ctx: LedgerToolContext) => {
+  const seen = new Map<string, FinancialRecord>();
+  const writes: (FunctionCall & { awaitsResponse: boolean })[] = [];
+  let response = await ai.models.generateContent({ model: 'gemini-3-pro-preview', contents, config });
+  for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+    const calls = response.functionCalls || [];
+    const hasReads = calls.some(fc => isLedgerQueryTool(fc.name));
+    writes.push(...calls.filter(fc => !isLedgerQueryTool(fc.name)).map(fc => ({ ...fc, awaitsResponse: !hasReads })));
+    if (!hasReads) break;
+    contents = [
+      ...contents,
+      response.candidates![0].content!,
+      {
+        role: 'user',
+        parts: calls.map(fc => ({
+          functionResponse: { id: fc.id, name: fc.name, response: isLedgerQueryTool(fc.name) ? runLedgerTool(fc, ctx, seen) : { status: 'awaiting_user_confirmation' } }
+        }))
+      }
+    ];
+    response = await ai.models.generateContent({ model: 'gemini-3-pro-preview', contents, config });
+  }
+  const finalTurn = response.candidates?.[0]?.content;
+  const unanswered = (response.functionCalls || []).some(fc => isLedgerQueryTool(fc.name));
+  return { response, writes, seen, contents: finalTurn && !unanswered ? [...contents, finalTurn] : contents };
+};
+
+// Felhasználói kör: a korábbi eszközhívások eredményei és/vagy egy új üzenet
+const userTurn = (text?: string, functionResponses: FunctionResponse[] = []): Content => ({
+  role: 'user',
+  parts: [...functionResponses.map(functionResponse => ({ functionResponse })), ...(text ? [{ text }] : [])]
+});
+
+// Az előzmény minden körben teljes egészében elmegy a modellnek, ezért a hossza korlátos,
+// a régebbi lekérdezések eredménye helyett pedig csak egy rövid jelzés marad
+const MAX_CHAT_HISTORY_TURNS = 40;
+const FULL_TOOL_RESULT_TURNS = 6;
+
+const isTextTurn = (turn: Content) => turn.role === 'user' && !!turn.parts?.length && turn.parts.every(p => !p.functionResponse);
+
+const compactChatHistory = (history: Content[]): Content[] => {
+  let kept = history;
+  if (history.length > MAX_CHAT_HISTORY_TURNS) {
+    // Csak felhasználói szöveges körnél vágunk, hogy ne maradjon válasz nélküli hívás vagy hívás nélküli válasz
+    const cut = history.length - MAX_CHAT_HISTORY_TURNS;
+    const start = history.findIndex((turn, i) => i >= cut && isTextTurn(turn));
+    if (start > 0) kept = history.slice(start);
+  }
+  const fullFrom = kept.length - FULL_TOOL_RESULT_TURNS;
+  return kept.map((turn, i) => i >= fullFrom || !turn.parts?.some(p => isLedgerQueryTool(p.functionResponse?.name)) ? turn : {
+    ...turn,
+    parts: turn.parts.map(p => isLedgerQueryTool(p.functionResponse?.name)
+      ? { functionResponse: { ...p.functionResponse, response: { status: 'omitted', message: 'Régebbi lekérdezés eredménye; ha szükséges, kérd le újra.' } } }
+      : p)
+  });
+};
+
+const runChatPrompt = async (history: Content[], turn: Content, categoryNames: string[], ctx: LedgerToolContext): Promise<ChatReply> => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const { response, writes, seen, contents } = await generateWithLedgerTools(ai, [...history, turn], {
+      systemInstruction: `Pénzügyi asszisztens vagy. ${ledgerToolInstruction()}`,
+      tools: [{ functionDeclarations: [...buildRecordTools(categoryNames), ...LEDGER_QUERY_TOOLS] }, { googleSearch: {} }]
+  }, ctx);
+  const grounding = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
+  return { text: resolveRecordCitations(response.text || '', seen), grounding, functionCalls: writes, turns: contents.slice(history.length) };
 };
 
-type ChatMessage = { 
-    id: string; 
-    role: 'user' | 'model' | 'system'; 
-    text: string; 
-    pendingTx?: PendingTransaction;
-    resolvedTx?: Omit<PendingTransaction, 'isEditing' | 'sessionResolver'>;
-    grounding?: any[]; 
-};
+// Az elemzés csak a napló terjedelmét kapja meg, a részleteket eszközhívásokkal kéri le
+const runLedgerAnalysis = async (ctx: LedgerToolContext) => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const dates = ctx.records.map(r => r.date).sort();
+  const prompt = `A naplóm ${ctx.records.length} tételt tartalmaz${dates.length ? ` ${dates[0]} és ${dates[dates.length - 1]} között` : ''}. 
+  Kérlek elemezd a pénzügyi helyzetemet. Emeld ki a legnagyobb kiadásokat és adj 3 konkrét tippet a spórolásra. Tömör légy.`;
+
+  const { response, seen } = await generateWithLedgerTools(ai, [{ role: 'user', parts: [{ text: prompt }] }], {
+      systemInstruction: `Pénzügyi elemző vagy. ${ledgerToolInstruction()}`,
+      tools: [{ functionDeclarations: LEDGER_QUERY_TOOLS }]
+  }, ctx);
+  return response.text ? resolveRecordCitations(response.text, seen) : 'Nem sikerült elemezni.';
+};
+
+const buildReceiptSchema = (categoryNames: string[]) => ({
+  type: Type.OBJECT,
+  properties: {
+    merchant: { type: Type.STRING, description: 'Az eladó vagy kibocsátó neve.' },
+    date: { type: Type.STRING, description: 'A vásárlás vagy teljesítés dátuma (ÉÉÉÉ-HH-NN).' },
+    total: { type: Type.NUMBER, description: 'A fizetendő végösszeg pozitív számként.' },
+    currency: { type: Type.STRING, description: 'ISO pénznemkód, pl. HUF vagy EUR.' },
+    vat: { type: Type.NUMBER, description: 'Az ÁFA összesen, ha szerepel.' },
+    category: { type: Type.STRING, format: 'enum', enum: toolCategoryEnum(categoryNames) },
+    lineItems: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          quantity: { type: Type.NUMBER },
+          amount: { type: Type.NUMBER, description: 'A sor végösszege.' }
+        },
+        required: ['name', 'amount']
+      }
+    }
+  },
+  required: ['merchant', 'total', 'lineItems']
+});
+
+// Nyugtakép vagy PDF számla kiolvasása strukturált kimenettel
+const runReceiptExtraction = async (file: { data: string; mimeType: string }, categoryNames: string[]): Promise<ReceiptExtraction> => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const response = await ai.models.generateContent({
+      model: 'gemini-3-pro-preview',
+      contents: [{ role: 'user', parts: [{ inlineData: file }, { text: 'Olvasd ki a nyugta vagy számla adatait.' }] }],
+      config: { responseMimeType: 'application/json', responseSchema: buildReceiptSchema(categoryNames) }
+  });
+  const extraction = JSON.parse(response.text || '{}') as ReceiptExtraction;
+  return { ...extraction, lineItems: extraction.lineItems || [] };
+};
+
+// A kiolvasott ÁFA és tételsorok a rögzítendő tétel megjegyzésébe kerülnek
+const receiptComment = (receipt: ReceiptExtraction) => [
+  receipt.vat ? `ÁFA: ${formatCurrency(receipt.vat, receipt.currency)}` : '',
+  ...receipt.lineItems.map(item => `${item.quantity && item.quantity !== 1 ? `${item.quantity}× ` : ''}${item.name}: ${formatCurrency(item.amount, receipt.currency)}`)
+].filter(Boolean).join('\n');
+
+const runImagePrompt = async (prompt: string) => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const response = await ai.models.generateContent({
+    model: 'gemini-3-pro-image-preview',
+    contents: { parts: [{ text: prompt }] },
+    config: { imageConfig: { aspectRatio: "1:1", imageSize: "1K" } }
+  });
+  const image = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+  if (!image) throw new Error('A válasz nem tartalmazott képet.');
+  return `data:image/png;base64,${image.inlineData!.data}`;
+};
+
+// --- VOICE SESSION ---
+const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+const VOICE_MAX_RETRIES = 3;
+const VOICE_CHUNK_SAMPLES = 2048;
+
+// A mikrofonjelet 16 bites PCM darabokra vágó AudioWorklet; külön fájl helyett blob URL-ről töltődik
+const PCM_WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+    constructor() { super(); this.buffer = new Int16Array(${VOICE_CHUNK_SAMPLES}); this.length = 0; }
+    process(inputs) {
+        const channel = inputs[0] && inputs[0][0];
+        if (!channel) return true;
+        for (let i = 0; i < channel.length; i++) {
+            this.buffer[this.length++] = Math.max(-1, Math.min(1, channel[i])) * 32767;
+            if (this.length === this.buffer.length) {
+                this.port.postMessage(this.buffer.buffer, [this.buffer.buffer]);
+                this.buffer = new Int16Array(${VOICE_CHUNK_SAMPLES});
+                this.length = 0;
+            }
+        }
+        return true;
+    }
+}
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+`;
+
+const microphoneErrorMessage = (e: unknown) => {
+    const name = e instanceof DOMException ? e.name : '';
+    if (name === 'NotAllowedError' || name === 'SecurityError') return 'A mikrofon használata nincs engedélyezve.';
+    if (name === 'NotFoundError' || name === 'OverconstrainedError') return 'Nem található mikrofon.';
+    if (name === 'NotReadableError') return 'A mikrofont egy másik alkalmazás használja.';
+    return 'A mikrofon nem indítható el.';
+};
+
+// Egy élő hangmunkamenet teljes életciklusa: mikrofon, felvevő worklet, kapcsolat, lejátszási sor és lebontás.
+// Megszakadt kapcsolatnál a mikrofon nyitva marad, csak a munkamenet épül fel újra, növekvő várakozással.
+const createVoiceSession = (options: VoiceSessionOptions): VoiceSession => {
+    let state: VoiceState = 'idle';
+    let stopped = false;
+    // Minden kapcsolódás új generációt kap, így egy már lecserélt munkamenet késve érkező eseményei nem hatnak
+    let generation = 0;
+    let retries = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let session: Session | null = null;
+    let stream: MediaStream | null = null;
+    let inCtx: AudioContext | null = null;
+    let outCtx: AudioContext | null = null;
+    let capture: AudioWorkletNode | null = null;
+    let nextStartTime = 0;
+    const playing = new Set<AudioBufferSourceNode>();
+
+    const setState = (next: VoiceState) => {
+        if (state === next) return;
+        state = next;
+        options.onStateChange(next);
+    };
+
+    // Barge-in: a felhasználó közbeszólásakor a már ütemezett válaszhang azonnal elhallgat
+    const stopPlayback = () => {
+        playing.forEach(source => {
+            source.onended = null;
+            try { source.stop(); } catch { /* már lejátszott */ }
+        });
+        playing.clear();
+        nextStartTime = 0;
+    };
+
+    const closeSession = () => {
+        const current = session;
+        session = null;
+        try { current?.close(); } catch (e) { console.error(e); }
+    };
+
+    const teardown = () => {
+        generation++;
+        clearTimeout(retryTimer);
+        closeSession();
+        stopPlayback();
+        if (capture) {
+            capture.port.onmessage = null;
+            capture.disconnect();
+            capture = null;
+        }
+        stream?.getTracks().forEach(track => track.stop());
+        stream = null;
+        inCtx?.close().catch(e => console.error(e));
+        outCtx?.close().catch(e => console.error(e));
+        inCtx = null;
+        outCtx = null;
+    };
+
+    const fail = (message: string) => {
+        teardown();
+        setState('error');
+        options.onError(message);
+    };
+
+    const reconnect = () => {
+        if (stopped) return;
+        generation++;
+        closeSession();
+        stopPlayback();
+        if (retries >= VOICE_MAX_RETRIES) {
+            fail('A hangkapcsolat megszakadt, nem sikerült újrakapcsolódni.');
+            return;
+        }
+        setState('connecting');
+        retryTimer = setTimeout(connect, 1000 * 2 ** retries);
+        retries++;
+    };
+
+    const play = async (base64: string) => {
+        const ctx = outCtx!;
+        const buffer = await decodeAudioData(decode(base64), ctx, 24000, 1);
+        if (ctx !== outCtx) return;
+        nextStartTime = Math.max(nextStartTime, ctx.currentTime);
+        const source = ctx.createBufferSource();
+        source.buffer = buffer;
+        source.playbackRate.value = options.playbackRate;
+        source.connect(ctx.destination);
+        source.onended = () => {
+            playing.delete(source);
+            if (playing.size === 0 && state === 'speaking') setState('listening');
+        };
+        playing.add(source);
+        source.start(nextStartTime);
+        nextStartTime += buffer.duration / options.playbackRate;
+        setState('speaking');
+    };
+
+    const handleMessage = (gen: number, msg: LiveServerMessage) => {
+        if (msg.toolCall?.functionCalls?.length) {
+            options.onToolCall(msg.toolCall.functionCalls, functionResponses => {
+                // Újrakapcsolódás után a régi hívásazonosítókra már nem várnak választ
+                if (gen === generation) session?.sendToolResponse({ functionResponses });
+            });
+        }
+        if (msg.serverContent?.inputTranscription?.text) options.onTranscript('user', msg.serverContent.inputTranscription.text);
+        if (msg.serverContent?.outputTranscription?.text) options.onTranscript('model', msg.serverContent.outputTranscription.text);
+        if (msg.serverContent?.interrupted) {
+            stopPlayback();
+            setState('listening');
+        }
+        for (const part of msg.serverContent?.modelTurn?.parts || []) {
+            if (part.inlineData?.data) play(part.inlineData.data).catch(e => console.error(e));
+        }
+        if (msg.serverContent?.turnComplete || msg.serverContent?.interrupted) options.onTurnEnd();
+    };
+
+    const connect = async () => {
+        const gen = ++generation;
+        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+        try {
+            const next = await ai.live.connect({
+                model: LIVE_MODEL,
+                callbacks: {
+                    onopen: () => {
+                        if (gen !== generation) return;
+                        retries = 0;
+                        setState('listening');
+                    },
+                    onmessage: msg => { if (gen === generation) handleMessage(gen, msg); },
+                    onerror: e => {
+                        if (gen !== generation) return;
+                        console.error(e);
+                        reconnect();
+                    },
+                    onclose: () => { if (gen === generation) reconnect(); }
+                },
+                config: {
+                    responseModalities: [Modality.AUDIO],
+                    speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: options.voiceName } } },
+                    systemInstruction: options.systemInstruction,
+                    tools: [{ functionDeclarations: options.tools }],
+                    inputAudioTranscription: {},
+                    outputAudioTranscription: {}
+                }
+            });
+            if (gen !== generation) {
+                next.close();
+                return;
+            }
+            session = next;
+        } catch (e) {
+            console.error(e);
+            if (gen === generation) reconnect();
+        }
+    };
+
+    const start = async () => {
+        stopped = false;
+        retries = 0;
+        setState('connecting');
+        try {
+            stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
+        } catch (e) {
+            console.error(e);
+            fail(microphoneErrorMessage(e));
+            return;
+        }
+        if (stopped) {
+            teardown();
+            return;
+        }
+        try {
+            inCtx = new AudioContext({ sampleRate: 16000 });
+            outCtx = new AudioContext({ sampleRate: 24000 });
+            const moduleUrl = URL.createObjectURL(new Blob([PCM_WORKLET_SOURCE], { type: 'application/javascript' }));
+            try {
+                await inCtx.audioWorklet.addModule(moduleUrl);
+            } finally {
+                URL.revokeObjectURL(moduleUrl);
+            }
+            if (stopped) return;
+            capture = new AudioWorkletNode(inCtx, 'pcm-capture');
+            capture.port.onmessage = (e: MessageEvent<ArrayBuffer>) => {
+                session?.sendRealtimeInput({ media: { data: encode(new Uint8Array(e.data)), mimeType: 'audio/pcm;rate=16000' } });
+            };
+            inCtx.createMediaStreamSource(stream).connect(capture);
+        } catch (e) {
+            console.error(e);
+            fail('A hangfeldolgozás nem indítható el ebben a böngészőben.');
+            return;
+        }
+        await connect();
+    };
+
+    const stop = () => {
+        stopped = true;
+        teardown();
+        setState('idle');
+    };
+
+    return { start, stop };
+};
+
+// --- CHAT THREADS ---
+const DEFAULT_THREAD_TITLE = 'Új beszélgetés';
+const WELCOME_MESSAGE: ChatMessage = { id: '0', role: 'model', text: 'Szia! HeR vagyok. Miben segíthetek?' };
+
+const newThreadId = () => `thread-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+
+const threadTitle = (messages: ChatMessage[]) => {
+    const first = messages.find(m => m.role === 'user')?.text.trim();
+    if (!first) return DEFAULT_THREAD_TITLE;
+    return first.length > 48 ? `${first.slice(0, 47)}…` : first;
+};
+
+type PendingCallContext = { records: FinancialRecord[]; budgets: Budget[]; categories: Category[] };
+
+// Az eszközhívásból jóváhagyó kártya lesz; ismeretlen tételre hivatkozó hívásnál null
+const pendingFromCall = (fc: { id?: string; name?: string; args?: any }, source: string, ctx: PendingCallContext): PendingTransaction | null => {
+    const { records, budgets, categories } = ctx;
+    const args = fc.args || {};
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+    if (fc.name === 'add_financial_record') {
+        return { id, toolCallId: fc.id, action: 'add', name: args.name, amount: args.amount, category: resolveCategoryName(categories, args.category), comment: args.comment || source };
+    }
+    if (fc.name === 'update_financial_record' || fc.name === 'delete_financial_record') {
+        const target = records.find(r => r.id === args.id);
+        if (!target) return null;
+        const isUpdate = fc.name === 'update_financial_record';
+        return {
+            id,
+            toolCallId: fc.id,
+            action: isUpdate ? 'update' : 'delete',
+            target,
+            name: isUpdate ? args.name ?? target.name : target.name,
+            amount: isUpdate ? args.amount ?? target.amount : target.amount,
+            category: isUpdate && args.category ? resolveCategoryName(categories, args.category) : target.category,
+            comment: isUpdate ? args.comment ?? target.comment : target.comment,
+            date: isUpdate && /^\d{4}-\d{2}-\d{2}$/.test(args.date || '') ? args.date : target.date
+        };
+    }
+    if (fc.name === 'set_budget') {
+        const category = args.category === TOTAL_BUDGET ? TOTAL_BUDGET : resolveCategoryName(categories, args.category);
+        const month = /^\d{4}-\d{2}$/.test(args.month || '') ? args.month as string : undefined;
+        const previousBudget = budgets.find(b => b.category === category && b.month === month);
+        const budget: Budget = previousBudget
+            ? { ...previousBudget, amount: Math.abs(args.amount), warnAt: args.warnAt ?? previousBudget.warnAt }
+            : { id: `budget-${Date.now()}`, category, amount: Math.abs(args.amount), startMonth: month || monthOf(toIsoDate(new Date())), month, carryOver: false, warnAt: args.warnAt ?? 80 };
+        return { id, toolCallId: fc.id, action: 'budget', budget, previousBudget, name: category === TOTAL_BUDGET ? 'Teljes havi keret' : category, amount: budget.amount, category, comment: '' };
+    }
+    return null;
+};
+
+// Az offline sorba állított kérdés válasza a saját szálába kerül akkor is, ha az épp nincs megnyitva.
+// Az írási hívások kártyái a szál függő hívásaihoz kötődnek, így megnyitás után ugyanúgy jóváhagyhatók.
+const appendChatReply = (thread: ChatThread, item: OutboxItem, reply: ChatReply, ctx: PendingCallContext): ChatThread => {
+    const awaiting = reply.functionCalls.filter(fc => fc.awaitsResponse);
+    const calls: AwaitingChatCall[] = awaiting.map((fc, i) => ({ key: `${fc.id || fc.name}-${item.id}-${i}`, id: fc.id, name: fc.name! }));
+    const messages: ChatMessage[] = [...thread.messages, { id: `${item.id}-prompt`, role: 'user', text: item.payload }];
+    if (reply.text) messages.push({ id: `${item.id}-reply`, role: 'model', text: reply.text, grounding: reply.grounding });
+    reply.functionCalls.forEach((fc, i) => {
+        const call = calls[awaiting.indexOf(fc)];
+        const pendingTx = pendingFromCall(fc, 'Chat', ctx);
+        if (!pendingTx && call) call.response = { status: 'error', message: 'A megadott azonosítóval nincs tétel.' };
+        messages.push(pendingTx
+            ? { id: pendingTx.id, role: 'system', text: 'Megerősítés...', pendingTx: { ...pendingTx, chatCallKey: call?.key } }
+            : { id: `${item.id}-${i}`, role: 'system', text: `✗ A kért tétel nem található (${fc.name}).` });
+    });
+    return {
+        ...thread,
+        title: threadTitle(messages),
+        messages,
+        history: compactChatHistory([...thread.history, ...(reply.turns || [])]),
+        awaiting: calls,
+        updatedAt: Date.now()
+    };
+};
+
+// A függvény nem tárolható: a hangmunkamenet visszahívása elvész, a kártya újratöltés után csak helyben hat
+const persistableMessage = ({ pendingTx, partial, ...message }: ChatMessage): ChatMessage => {
+    if (!pendingTx) return message;
+    const { sessionResolver, ...rest } = pendingTx;
+    return { ...message, pendingTx: rest };
+};
+
+const threadPendingCount = (thread: ChatThread) => thread.messages.filter(m => m.pendingTx).length;
+
+// Kis- és nagybetű, valamint ékezet nélküli keresés a címben és az üzenetekben; találatnál rövid kivonat is jár
+const searchChatThreads = (threads: ChatThread[], query: string) => {
+    const needle = getCategorySlug(query.trim());
+    const sorted = [...threads].sort((a, b) => b.updatedAt - a.updatedAt);
+    if (!needle) return sorted.map(thread => ({ thread, snippet: '' }));
+    return sorted.flatMap(thread => {
+        if (getCategorySlug(thread.title).includes(needle)) return [{ thread, snippet: '' }];
+        for (const message of thread.messages) {
+            const index = getCategorySlug(message.text).indexOf(needle);
+            if (index < 0) continue;
+            const start = Math.max(0, index - 30);
+            const snippet = `${start > 0 ? '…' : ''}${message.text.slice(start, index + needle.length + 50)}${index + needle.length + 50 < message.text.length ? '…' : ''}`;
+            return [{ thread, snippet }];
+        }
+        return [];
+    });
+};
+
+const CHAT_ROLE_LABELS: Record<ChatMessage['role'], string> = { user: 'Te', model: 'HeR', system: 'Rendszer' };
+
+const chatThreadToMarkdown = (thread: ChatThread) => [
+    `# ${thread.title}`,
+    `_${new Date(thread.createdAt).toLocaleString('hu-HU')} – ${new Date(thread.updatedAt).toLocaleString('hu-HU')}_`,
+    ...thread.messages.map(m => {
+        const label = `**${CHAT_ROLE_LABELS[m.role]}**${m.voice ? ' (hang)' : ''}`;
+        const body = m.pendingTx
+            ? `Jóváhagyásra vár: ${m.pendingTx.name} · ${formatCurrency(m.pendingTx.amount, m.pendingTx.currency)} · ${m.pendingTx.category}`
+            : m.text;
+        return `${label}: ${body}`;
+    })
+].join('\n\n');
+
+// --- COMPONENTS ---
+const Icon = ({ name, className, style }: { name: string; className?: string; style?: React.CSSProperties }) => (
+  <span className={`material-symbols-outlined ${className || ''}`} style={style}>{name}</span>
+);
+
+const BrandHeader = ({ isOnline, pendingCount, onRetry }: { isOnline: boolean; pendingCount: number; onRetry: () => void }) => (
+    <div className="brand-header">
+        <div className="brand-main">
+            <span className="brand-text">HeR WiNnEr</span>
+            <div className="brand-dot"></div>
+        </div>
+        <div className="status-container">
+            {pendingCount > 0 && isOnline && (
+                <button className="sync-badge-btn" onClick={onRetry} title="Kézi szinkronizálás">
+                    <Icon name="sync" className="spin" style={{ fontSize: '14px' }} />
+                    <span>{pendingCount}</span>
+                </button>
+            )}
+            <div className={`connectivity-tag ${isOnline ? 'online' : 'offline'}`}>
+                <Icon name={isOnline ? "cloud_done" : "cloud_off"} style={{ fontSize: '14px' }} />
+                <span>{isOnline ? 'Online' : 'Offline Mode'}</span>
+            </div>
+        </div>
+    </div>
+);
+
+const OUTBOX_STATUS_META: Record<OutboxStatus, { label: string; icon: string }> = {
+    queued: { label: 'Sorban áll', icon: 'schedule' },
+    sending: { label: 'Küldés...', icon: 'sync' },
+    failed: { label: 'Sikertelen', icon: 'error' },
+    done: { label: 'Kész', icon: 'check_circle' }
+};
+
+const OutboxStatusChip = ({ item, onRetry, onDiscard }: { item: OutboxItem; onRetry: (id: string) => void; onDiscard: (id: string) => void }) => (
+    <div className={`outbox-status ${item.status}`} title={item.error}>
+        <Icon name={OUTBOX_STATUS_META[item.status].icon} className={item.status === 'sending' ? 'spin' : ''} style={{ fontSize: '12px' }} />
+        <span>{OUTBOX_STATUS_META[item.status].label}</span>
+        {item.status === 'failed' && (
+            <>
+                <button className="icon-btn-mini" onClick={() => onRetry(item.id)} title="Újrapróbálás">
+                    <Icon name="replay" style={{ fontSize: '12px' }} />
+                </button>
+                <button className="icon-btn-mini" onClick={() => onDiscard(item.id)} title="Elvetés">
+                    <Icon name="close" style={{ fontSize: '12px' }} />
+                </button>
+            </>
+        )}
+    </div>
+);
+
+// Kategória címke a nyilvántartás színével; ismeretlen kategóriánál a régi CSS osztály marad
+const CategoryTag = ({ name, categories, title }: { name: string, categories: Category[], title?: string }) => {
+    const category = categories.find(c => c.name === name);
+    return (
+        <span
+            className={`cat-tag cat-${getCategorySlug(name)}`}
+            style={category ? { background: `${category.color}26`, color: category.color } : undefined}
+            title={title}
+        >
+            {category && <Icon name={category.icon} style={{ fontSize: '10px', verticalAlign: 'middle', marginRight: '2px' }} />}
+            {name}
+        </span>
+    );
+};
+
+// Kategóriaválasztó fa sorrendben; az archivált kategória csak akkor jelenik meg, ha épp az van kiválasztva.
+// A kategórián kívüli választható értékek (pl. a teljes keret) az extraOptions listában érkeznek.
+const CategorySelect = ({ categories, value, onChange, className, style, extraOptions = [] }: {
+    categories: Category[],
+    value: string,
+    onChange: (name: string) => void,
+    className?: string,
+    style?: React.CSSProperties,
+    extraOptions?: { value: string, label: string }[]
+}) => {
+    const options = orderedCategories(categories).filter(c => !c.archived || c.name === value);
+    const isKnown = options.some(c => c.name === value) || extraOptions.some(o => o.value === value);
+    return (
+        <select className={className} style={style} value={value} onChange={e => onChange(e.target.value)}>
+            {extraOptions.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            {!isKnown && value && <option value={value}>{value}</option>}
+            {options.map(c => <option key={c.id} value={c.name}>{c.parentId ? `\u00A0\u00A0↳ ${c.name}` : c.name}</option>)}
+        </select>
+    );
+};
+
+// Kategória javaslat a megbízhatóságával; kattintásra átveszi a javasolt kategóriát
+const CategorySuggestionChip = ({ suggestion, categories, onApply }: {
+    suggestion: CategorySuggestion,
+    categories: Category[],
+    onApply: (category: string) => void
+}) => (
+    <button
+        className="suggestion-chip"
+        onClick={() => onApply(suggestion.category)}
+        title={suggestion.source === 'rule' ? 'Saját szabály alapján' : 'A korábbi tételeid alapján'}
+    >
+        <Icon name={suggestion.source === 'rule' ? 'rule' : 'auto_awesome'} style={{ fontSize: '12px' }} />
+        <span>Javaslat:</span>
+        <CategoryTag name={suggestion.category} categories={categories} />
+        <span className="suggestion-confidence">{Math.round(suggestion.confidence * 100)}%</span>
+    </button>
+);
+
+// Csatolmány előnézete: képnél bélyegkép, egyébként fájlikon; kattintásra új lapon nyílik meg
+const AttachmentPreview = ({ attachment, onRemove }: { attachment: Attachment, onRemove?: () => void }) => {
+    const url = useMemo(() => URL.createObjectURL(attachment.blob), [attachment.blob]);
+    const thumbUrl = useMemo(() => attachment.thumbnail ? URL.createObjectURL(attachment.thumbnail) : null, [attachment.thumbnail]);
+    useEffect(() => () => URL.revokeObjectURL(url), [url]);
+    useEffect(() => () => { if (thumbUrl) URL.revokeObjectURL(thumbUrl); }, [thumbUrl]);
+    return (
+        <div className="attachment-item">
+            <a className="attachment-preview" href={url} target="_blank" rel="noopener noreferrer" title={`${attachment.name} (${formatBytes(attachment.size)})`}>
+                {attachment.mimeType.startsWith('image/')
+                    ? <img src={thumbUrl ?? url} alt={attachment.name} />
+                    : <Icon name={attachment.mimeType === 'application/pdf' ? 'picture_as_pdf' : 'description'} />}
+                <span>{attachment.name}</span>
+            </a>
+            {onRemove && <button className="attachment-remove" onClick={onRemove} title="Csatolmány eltávolítása"><Icon name="close" /></button>}
+        </div>
+    );
+};
+
+// --- CONFLICT RESOLUTION MODAL ---
+const FIELD_LABELS: Record<MergeField, string> = {
+    name: 'Megnevezés',
+    amount: 'Összeg',
+    currency: 'Pénznem',
+    category: 'Kategória',
+    date: 'Dátum',
+    comment: 'Megjegyzés',
+    splits: 'Felosztás',
+    tags: 'Címkék'
+};
+
+const ConflictModal = ({ localRecord, remoteRecord, onResolve }: { 
+    localRecord: FinancialRecord, 
+    remoteRecord: FinancialRecord, 
+    onResolve: (version: 'local' | 'remote', merged?: RecordFields) => void 
+}) => {
+    const formatDate = (ts?: number) => ts ? new Date(ts).toLocaleTimeString('hu-HU') : 'Ismeretlen';
+    const localDeleted = localRecord.syncStatus === 'tombstone';
+    const remoteDeleted = remoteRecord.syncStatus === 'tombstone';
+    const [choices, setChoices] = useState<Partial<Record<MergeField, 'local' | 'remote'>>>({});
+
+    const local = pickFields(localRecord);
+    const remote = pickFields(remoteRecord);
+    const { merged, clashes } = mergeRecordFields(localRecord.base, local, remote);
+    const allChosen = clashes.every(f => choices[f]);
+
+    const formatField = (field: MergeField, value: RecordFields[MergeField], currency?: string) => {
+        if (field === 'amount') return formatCurrency(value as number, currency);
+        if (field === 'splits') return (value as RecordSplit[] | undefined)?.map(s => `${s.category}: ${formatCurrency(s.amount, currency)}`).join(', ') || '—';
+        if (field === 'tags') return (value as string[] | undefined)?.map(t => `#${t}`).join(' ') || '—';
+        return (value as string) || '—';
+    };
+
+    const chooseAll = (version: 'local' | 'remote') => setChoices(Object.fromEntries(clashes.map(f => [f, version])));
+
+    const saveMerge = () => {
+        const result = { ...merged };
+        for (const field of clashes) {
+            copyField(result, choices[field] === 'remote' ? remote : local, field);
+        }
+        onResolve(MERGE_FIELDS.every(f => sameFieldValue(result[f], remote[f])) ? 'remote' : 'local', result);
+    };
+
+    const renderVersion = (record: FinancialRecord, deleted: boolean, tsLabel: string) => deleted ? (
+        <div className="v-box tombstone">
+            <small className="v-ts">{tsLabel}: {formatDate(record.lastModified)}</small>
+            <Icon name="delete_forever" className="danger-text" />
+            <strong>Törölve</strong>
+            <small>{record.name}</small>
+        </div>
+    ) : (
+        <div className="v-box">
+            <small className="v-ts">{tsLabel}: {formatDate(record.lastModified)}</small>
+            <strong>{record.name}</strong>
+            <span className={record.amount >= 0 ? 'success-text' : 'danger-text'}>{formatCurrency(record.amount)}</span>
+            <small>{record.category}</small>
+        </div>
+    );
+
+    if (!localDeleted && !remoteDeleted) {
+        return (
+            <div className="modal-overlay fade-in">
+                <div className="modal-content glass-panel conflict-modal">
+                    <header className="modal-header">
+                        <h3>Adatütközés feloldása</h3>
+                        <Icon name="sync_problem" style={{ color: 'var(--warning)' }} />
+                    </header>
+                    <p style={{ fontSize: '13px', color: 'var(--text-muted)', marginBottom: '20px' }}>
+                        Ez a tétel módosult a szerveren és helyileg is, amíg offline voltál. Az egymást nem zavaró változásokat összefésültük, csak az ütköző mezőknél kell választanod.
+                    </p>
+
+                    <div className="merge-table">
+                        <div className="merge-row merge-head">
+                            <span></span>
+                            <span>Saját ({formatDate(localRecord.lastModified)})</span>
+                            <span>Szerver ({formatDate(remoteRecord.lastModified)})</span>
+                        </div>
+                        {MERGE_FIELDS.map(field => {
+                            const isClash = clashes.includes(field);
+                            const source = sameFieldValue(local[field], remote[field]) ? null : sameFieldValue(merged[field], remote[field]) ? 'remote' : 'local';
+                            return (
+                                <div key={field} className={`merge-row ${isClash ? 'clash' : ''}`}>
+                                    <span className="merge-label">{FIELD_LABELS[field]}</span>
+                                    {(['local', 'remote'] as const).map(version => {
+                                        const value = version === 'local' ? local[field] : remote[field];
+                                        const selected = isClash ? choices[field] === version : source === version;
+                                        return isClash ? (
+                                            <button key={version} className={`merge-cell pick ${selected ? 'selected' : ''}`} onClick={() => setChoices(prev => ({ ...prev, [field]: version }))}>
+                                                {formatField(field, value, version === 'local' ? local.currency : remote.currency)}
+                                            </button>
+                                        ) : (
+                                            <span key={version} className={`merge-cell ${selected ? 'selected' : ''} ${source === null ? 'same' : ''}`}>
+                                                {formatField(field, value, version === 'local' ? local.currency : remote.currency)}
+                                            </span>
+                                        );
+                                    })}
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    {clashes.length > 0 && (
+                        <div style={{ display: 'flex', gap: '8px', marginTop: '15px' }}>
+                            <button className="cancel-btn" style={{ flex: 1 }} onClick={() => chooseAll('local')}>Mind saját</button>
+                            <button className="cancel-btn" style={{ flex: 1 }} onClick={() => chooseAll('remote')}>Mind szerver</button>
+                        </div>
+                    )}
+
+                    <footer className="modal-footer">
+                        <button className="save-btn" onClick={saveMerge} disabled={!allChosen}>
+                            {allChosen ? 'Összefésült verzió mentése' : `Még ${clashes.filter(f => !choices[f]).length} mező vár döntésre`}
+                        </button>
+                    </footer>
+                </div>
+            </div>
+        );
+    }
+    
+    return (
+        <div className="modal-overlay fade-in">
+            <div className="modal-content glass-panel conflict-modal">
+                <header className="modal-header">
+                    <h3>Adatütközés feloldása</h3>
+                    <Icon name="sync_problem" style={{ color: 'var(--warning)' }} />
+                </header>
+                <p style={{ fontSize: '13px', color: 'var(--text-muted)', marginBottom: '20px' }}>
+                    {localDeleted
+                        ? 'Ezt a tételt törölted, de közben a szerveren módosult. Visszaállíthatod a szerver verzióját, vagy véglegesítheted a törlést.'
+                        : 'Ezt a tételt egy másik eszközön törölték, miközben helyileg módosítottad. Visszaállíthatod a saját verziódat, vagy elfogadhatod a törlést.'}
+                </p>
+                
+                <div className="conflict-grid">
+                    <div className="conflict-version local">
+                        <span className="version-label">Helyi verzió (Saját)</span>
+                        {renderVersion(localRecord, localDeleted, 'Saját módosítás')}
+                        <button className="confirm-btn" onClick={() => onResolve('local')}>
+                            {localDeleted ? 'Törlés véglegesítése' : 'Visszaállítás'}
+                        </button>
+                    </div>
+                    <div className="conflict-version remote">
+                        <span className="version-label">Szerver verzió</span>
+                        {renderVersion(remoteRecord, remoteDeleted, 'Szerver idő')}
+                        <button className="cancel-btn" onClick={() => onResolve('remote')}>
+                            {localDeleted ? 'Visszaállítás' : 'Törlés elfogadása'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// --- MODAL EDITOR ---
+const EditRecordModal = ({ record, currencies, categories, attachments = [], categorize, onSave, onSaveSeries, onDelete, onSaveAttachment, onDeleteAttachment, onClose }: { 
+    record: FinancialRecord, 
+    currencies: string[],
+    categories: Category[],
+    attachments?: Attachment[],
+    categorize?: Categorizer,
+    onSaveAttachment?: (a: Attachment) => void,
+    onDeleteAttachment?: (id: string) => void,
+    onSave: (r: FinancialRecord) => void, 
+    onSaveSeries?: (r: FinancialRecord) => void,
+    onDelete: (id: string) => void,
+    onClose: () => void 
+}) => {
+    const [formData, setFormData] = useState<FinancialRecord>({ ...record });
+    const [tagText, setTagText] = useState((record.tags || []).join(', '));
+    const isSeriesInstance = !!record.recurrence && !record.recurrence.detached && !!onSaveSeries;
+    const [scope, setScope] = useState<'single' | 'series'>('single');
+    const [attachmentError, setAttachmentError] = useState('');
+    // A szerkesztés közben feltöltött fájlok: mégsem esetén törlődnek, hogy ne maradjon gazdátlan csatolmány
+    const addedAttachmentIds = useRef<string[]>([]);
+    const [added, setAdded] = useState<Attachment[]>([]);
+    const recordAttachments = [...attachments, ...added.filter(a => !attachments.some(b => b.id === a.id))]
+        .filter(a => formData.attachmentIds?.includes(a.id));
+
+    const splits = formData.splits;
+    const suggestion = useMemo(
+        () => categorize?.({ name: formData.name, comment: formData.comment, amount: formData.amount }) ?? null,
+        [categorize, formData.name, formData.comment, formData.amount]
+    );
+    const remainder = splits ? splitRemainder(formData.amount, splits) : 0;
+    const isBalanced = remainder === 0;
+
+    const save = () => {
+        if (!isBalanced) return;
+        const tags = parseTags(tagText);
+        const result: FinancialRecord = {
+            ...formData,
+            // Egyetlen sorra szűkült felosztás helyett sima tétel marad
+            splits: splits && splits.length > 1 ? splits : undefined,
+            category: splits && splits.length > 1 ? primaryCategory(splits) : (splits?.[0]?.category ?? formData.category),
+            tags: tags.length ? tags : undefined
+        };
+        const seriesSave = isSeriesInstance && scope === 'series';
+        if (seriesSave) {
+            onSaveSeries!(result);
+        } else {
+            // Az egyedileg módosított előfordulás leválik a sorozatról, a későbbi sorozatszerkesztés nem írja felül
+            onSave(record.recurrence ? { ...result, recurrence: { ...record.recurrence, detached: true } } : result);
+        }
+        const kept = seriesSave ? record.attachmentIds : result.attachmentIds;
+        (record.attachmentIds || []).filter(id => !kept?.includes(id)).forEach(id => onDeleteAttachment?.(id));
+        addedAttachmentIds.current.filter(id => !kept?.includes(id)).forEach(id => onDeleteAttachment?.(id));
+        onClose();
+    };
+
+    const cancel = () => {
+        addedAttachmentIds.current.forEach(id => onDeleteAttachment?.(id));
+        onClose();
+    };
+
+    const addAttachment = async (file: File) => {
+        setAttachmentError('');
+        try {
+            const attachment = await createAttachment(file, [...attachments, ...added]);
+            onSaveAttachment!(attachment);
+            addedAttachmentIds.current.push(attachment.id);
+            setAdded(prev => [...prev, attachment]);
+            setFormData(prev => ({ ...prev, attachmentIds: [...(prev.attachmentIds || []), attachment.id] }));
+        } catch (e) {
+            setAttachmentError(e instanceof Error ? e.message : 'A fájl nem csatolható.');
+        }
+    };
+
+    // A csatolmányok tételenként tárolódnak, a sorozat szerkesztése nem viszi át őket: ilyenkor az eredeti lista marad,
+    // a közben feltöltött fájlokat pedig a mentés törli
+    const editsAttachments = !!onSaveAttachment && !(isSeriesInstance && scope === 'series');
+    const selectSeriesScope = () => {
+        setScope('series');
+        setFormData(prev => ({ ...prev, attachmentIds: record.attachmentIds }));
+    };
+
+    const removeAttachment = (id: string) => setFormData(prev => {
+        const attachmentIds = (prev.attachmentIds || []).filter(a => a !== id);
+        return { ...prev, attachmentIds: attachmentIds.length ? attachmentIds : undefined };
+    });
+
+    const setSplits = (next: RecordSplit[] | undefined) => setFormData(prev => ({ ...prev, splits: next }));
+    const updateSplit = (index: number, updates: Partial<RecordSplit>) => setSplits(splits!.map((s, i) => i === index ? { ...s, ...updates } : s));
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+        const { name, value } = e.target;
+        setFormData(prev => ({ 
+            ...prev, 
+            [name]: name === 'amount' ? parseFloat(value) || 0 : value 
+        }));
+    };
+
+    return (
+        <div className="modal-overlay fade-in" onClick={cancel}>
+            <div className="modal-content glass-panel" onClick={e => e.stopPropagation()}>
+                <header className="modal-header">
+                    <h3>Szerkesztés</h3>
+                    <button className="icon-btn" onClick={cancel}><Icon name="close" /></button>
+                </header>
+                
+                <div className="modal-body">
+                    {isSeriesInstance && (
+                        <div className="input-group">
+                            <label>Módosítás hatóköre</label>
+                            <div className="scope-toggle">
+                                <button className={`voice-chip ${scope === 'single' ? 'active' : ''}`} onClick={() => setScope('single')}>Csak ez a tétel</button>
+                                <button className={`voice-chip ${scope === 'series' ? 'active' : ''}`} onClick={selectSeriesScope}>Ez és a későbbiek</button>
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="input-group">
+                        <label>Megnevezés</label>
+                        <input name="name" value={formData.name} onChange={handleChange} placeholder="Pl. Élelmiszer" />
+                    </div>
+                    
+                    <div className="input-row">
+                        <div className="input-group">
+                            <label>Összeg</label>
+                            <input name="amount" type="number" value={formData.amount} onChange={handleChange} placeholder="Pl. -5000" />
+                        </div>
+                        <div className="input-group">
+                            <label>Pénznem</label>
+                            <select name="currency" value={formData.currency || BASE_CURRENCY} onChange={handleChange}>
+                                {currencies.map(c => <option key={c} value={c}>{c}</option>)}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div className="input-group">
+                        <label>Dátum</label>
+                        <input name="date" type="date" value={formData.date} onChange={handleChange} disabled={isSeriesInstance && scope === 'series'} />
+                    </div>
+
+                    {splits ? (
+                        <div className="input-group">
+                            <label>Felosztás kategóriánként</label>
+                            {splits.map((split, i) => (
+                                <div key={i} className="split-row">
+                                    <CategorySelect categories={categories} value={split.category} onChange={category => updateSplit(i, { category })} />
+                                    <input type="number" value={split.amount} onChange={e => updateSplit(i, { amount: parseFloat(e.target.value) || 0 })} />
+                                    <button className="icon-btn-mini" title="Sor törlése" onClick={() => setSplits(splits.length > 1 ? splits.filter((_, j) => j !== i) : undefined)}>
+                                        <Icon name="remove_circle_outline" />
+                                    </button>
+                                </div>
+                            ))}
+                            <div className="split-footer">
+                                <button className="icon-btn-mini" title="Új sor a különbözettel" onClick={() => setSplits([...splits, { category: fallbackCategoryName(categories), amount: remainder }])}>
+                                    <Icon name="add" />
+                                </button>
+                                <small className={isBalanced ? 'input-hint' : 'warning-text'}>
+                                    {isBalanced
+                                        ? 'A részek összege egyezik a végösszeggel.'
+                                        : `A részek összege eltér a végösszegtől: ${formatCurrency(remainder, formData.currency)} felosztatlan.`}
+                                </small>
+                            </div>
+                        </div>
+                    ) : (
+                        <div className="input-group">
+                            <label>Kategória</label>
+                            <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                                <CategorySelect categories={categories} value={formData.category} onChange={category => setFormData(prev => ({ ...prev, category }))} style={{ flex: 1 }} />
+                                <button className="icon-btn-mini" title="Felosztás több kategóriára" onClick={() => setSplits([{ category: formData.category, amount: formData.amount }, { category: fallbackCategoryName(categories), amount: 0 }])}>
+                                    <Icon name="call_split" />
+                                </button>
+                            </div>
+                            {suggestion && suggestion.category !== formData.category && (
+                                <CategorySuggestionChip suggestion={suggestion} categories={categories} onApply={category => setFormData(prev => ({ ...prev, category }))} />
+                            )}
+                        </div>
+                    )}
 
-type FinancialRecord = { 
-    id: string; 
-    name: string; 
-    amount: number; 
-    date: string; 
-    comment: string; 
-    category: string;
-    syncStatus?: SyncStatus;
-    lastModified?: number;
-};
+                    <div className="input-group">
+                        <label>Címkék</label>
+                        <input value={tagText} onChange={e => setTagText(e.target.value)} placeholder="Pl. nyaralás, céges" />
+                    </div>
 
-type VoiceName = 'Kore' | 'Puck' | 'Charon' | 'Fenrir' | 'Zephyr';
+                    <div className="input-group">
+                        <label>Megjegyzés</label>
+                        <textarea name="comment" value={formData.comment} onChange={handleChange} placeholder="További részletek..." />
+                    </div>
 
-// --- COMPONENTS ---
-const Icon = ({ name, className, style }: { name: string; className?: string; style?: React.CSSProperties }) => (
-  <span className={`material-symbols-outlined ${className || ''}`} style={style}>{name}</span>
-);
+                    {(recordAttachments.length > 0 || onSaveAttachment) && (
+                        <div className="input-group">
+                            <label>Csatolmányok</label>
+                            <div className="attachment-list">
+                                {recordAttachments.map(a => <AttachmentPreview key={a.id} attachment={a} onRemove={editsAttachments ? () => removeAttachment(a.id) : undefined} />)}
+                                {editsAttachments && (
+                                    <label className="attachment-upload" title={`Kép vagy PDF, legfeljebb ${formatBytes(MAX_ATTACHMENT_BYTES)}`}>
+                                        <Icon name="attach_file" /> Fájl csatolása
+                                        <input type="file" accept="image/*,application/pdf" hidden onChange={e => {
+                                            const file = e.target.files?.[0];
+                                            e.target.value = '';
+                                            if (file) addAttachment(file);
+                                        }} />
+                                    </label>
+                                )}
+                            </div>
+                            {onSaveAttachment && !editsAttachments && <small className="input-hint">A csatolmányok csak a „Csak ez a tétel” hatókörben módosíthatók.</small>}
+                            {attachmentError && <p className="danger-text" style={{ fontSize: '12px' }}>{attachmentError}</p>}
+                        </div>
+                    )}
+                </div>
 
-const BrandHeader = ({ isOnline, pendingCount, onRetry }: { isOnline: boolean; pendingCount: number; onRetry: () => void }) => (
-    <div className="brand-header">
-        <div className="brand-main">
-            <span className="brand-text">HeR WiNnEr</span>
-            <div className="brand-dot"></div>
-        </div>
-        <div className="status-container">
-            {pendingCount > 0 && isOnline && (
-                <button className="sync-badge-btn" onClick={onRetry} title="Kézi szinkronizálás">
-                    <Icon name="sync" className="spin" style={{ fontSize: '14px' }} />
-                    <span>{pendingCount}</span>
-                </button>
-            )}
-            <div className={`connectivity-tag ${isOnline ? 'online' : 'offline'}`}>
-                <Icon name={isOnline ? "cloud_done" : "cloud_off"} style={{ fontSize: '14px' }} />
-                <span>{isOnline ? 'Online' : 'Offline Mode'}</span>
+                <footer className="modal-footer">
+                    <button className="delete-btn" onClick={() => { onDelete(record.id); cancel(); }}>
+                        <Icon name="delete" /> Törlés
+                    </button>
+                    <button className="save-btn" onClick={save} disabled={!isBalanced}>
+                        Mentés
+                    </button>
+                </footer>
             </div>
         </div>
-    </div>
-);
+    );
+};
 
-// --- CONFLICT RESOLUTION MODAL ---
-const ConflictModal = ({ localRecord, remoteRecord, onResolve }: { 
-    localRecord: FinancialRecord, 
-    remoteRecord: FinancialRecord, 
-    onResolve: (version: 'local' | 'remote') => void 
+// --- RECURRING RULE EDITOR ---
+const RecurringRuleModal = ({ rule, currencies, categories, onSave, onDelete, onClose }: {
+    rule: RecurringRule,
+    currencies: string[],
+    categories: Category[],
+    onSave: (r: RecurringRule) => void,
+    onDelete?: (id: string) => void,
+    onClose: () => void
 }) => {
-    const formatCurrency = (val: number) => new Intl.NumberFormat('hu-HU', { style: 'currency', currency: 'HUF', maximumFractionDigits: 0 }).format(val);
-    const formatDate = (ts?: number) => ts ? new Date(ts).toLocaleTimeString('hu-HU') : 'Ismeretlen';
-    
+    const [formData, setFormData] = useState<RecurringRule>({ ...rule });
+    const isMonthBased = formData.frequency === 'monthly' || formData.frequency === 'yearly';
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+        const { name, value } = e.target;
+        const numeric = name === 'amount' || name === 'interval' || name === 'dayOfMonth';
+        setFormData(prev => ({ 
+            ...prev, 
+            [name]: numeric ? parseFloat(value) || 0 : name === 'endDate' ? value || undefined : value 
+        }));
+    };
+
     return (
-        <div className="modal-overlay fade-in">
-            <div className="modal-content glass-panel conflict-modal">
+        <div className="modal-overlay fade-in" onClick={onClose}>
+            <div className="modal-content glass-panel" onClick={e => e.stopPropagation()}>
                 <header className="modal-header">
-                    <h3>Adatütközés feloldása</h3>
-                    <Icon name="sync_problem" style={{ color: 'var(--warning)' }} />
+                    <h3>Ismétlődő tétel</h3>
+                    <button className="icon-btn" onClick={onClose}><Icon name="close" /></button>
                 </header>
-                <p style={{ fontSize: '13px', color: 'var(--text-muted)', marginBottom: '20px' }}>
-                    Ez a tétel módosult a szerveren és helyileg is, amíg offline voltál. Válaszd ki, melyik maradjon meg.
-                </p>
-                
-                <div className="conflict-grid">
-                    <div className="conflict-version local">
-                        <span className="version-label">Helyi verzió (Saját)</span>
-                        <div className="v-box">
-                            <small className="v-ts">Saját módosítás: {formatDate(localRecord.lastModified)}</small>
-                            <strong>{localRecord.name}</strong>
-                            <span className={localRecord.amount >= 0 ? 'success-text' : 'danger-text'}>{formatCurrency(localRecord.amount)}</span>
-                            <small>{localRecord.category}</small>
+
+                <div className="modal-body">
+                    <div className="input-group">
+                        <label>Megnevezés</label>
+                        <input name="name" value={formData.name} onChange={handleChange} placeholder="Pl. Lakbér" />
+                    </div>
+
+                    <div className="input-row">
+                        <div className="input-group">
+                            <label>Összeg</label>
+                            <input name="amount" type="number" value={formData.amount} onChange={handleChange} placeholder="Pl. -150000" />
+                        </div>
+                        <div className="input-group">
+                            <label>Pénznem</label>
+                            <select name="currency" value={formData.currency || BASE_CURRENCY} onChange={handleChange}>
+                                {currencies.map(c => <option key={c} value={c}>{c}</option>)}
+                            </select>
                         </div>
-                        <button className="confirm-btn" onClick={() => onResolve('local')}>A sajátot tartom meg</button>
                     </div>
-                    <div className="conflict-version remote">
-                        <span className="version-label">Szerver verzió</span>
-                        <div className="v-box">
-                            <small className="v-ts">Szerver idő: {formatDate(remoteRecord.lastModified)}</small>
-                            <strong>{remoteRecord.name}</strong>
-                            <span className={remoteRecord.amount >= 0 ? 'success-text' : 'danger-text'}>{formatCurrency(remoteRecord.amount)}</span>
-                            <small>{remoteRecord.category}</small>
+
+                    <div className="input-group">
+                        <label>Kategória</label>
+                        <CategorySelect categories={categories} value={formData.category} onChange={category => setFormData(prev => ({ ...prev, category }))} />
+                    </div>
+
+                    <div className="input-row">
+                        <div className="input-group">
+                            <label>Gyakoriság</label>
+                            <select name="frequency" value={formData.frequency} onChange={handleChange}>
+                                {Object.entries(FREQUENCY_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                            </select>
+                        </div>
+                        <div className="input-group">
+                            <label>Minden hányadik</label>
+                            <input name="interval" type="number" min="1" value={formData.interval} onChange={handleChange} />
+                        </div>
+                    </div>
+
+                    <div className="input-row">
+                        <div className="input-group">
+                            <label>Kezdő dátum</label>
+                            <input name="startDate" type="date" value={formData.startDate} onChange={handleChange} disabled={!!rule.lastGenerated} />
+                        </div>
+                        <div className="input-group">
+                            <label>Záró dátum</label>
+                            <input name="endDate" type="date" value={formData.endDate || ''} onChange={handleChange} />
+                        </div>
+                    </div>
+
+                    {isMonthBased && (
+                        <div className="input-group">
+                            <label>Hónap napja</label>
+                            <input name="dayOfMonth" type="number" min="1" max="31" value={formData.dayOfMonth || ''} onChange={handleChange} placeholder="A kezdő dátum napja" />
+                            <small className="input-hint">Rövidebb hónapokban a hónap utolsó napjára esik (31 = mindig a hónap vége).</small>
                         </div>
-                        <button className="cancel-btn" onClick={() => onResolve('remote')}>Váltás a szerverre</button>
+                    )}
+
+                    <div className="input-group">
+                        <label>Megjegyzés</label>
+                        <textarea name="comment" value={formData.comment} onChange={handleChange} placeholder="További részletek..." />
                     </div>
                 </div>
+
+                <footer className="modal-footer">
+                    {onDelete && (
+                        <button className="delete-btn" onClick={() => { onDelete(rule.id); onClose(); }}>
+                            <Icon name="event_busy" /> Leállítás
+                        </button>
+                    )}
+                    <button className="save-btn" onClick={() => { onSave({ ...formData, interval: Math.max(1, formData.interval || 1) }); onClose(); }}>
+                        Mentés
+                    </button>
+                </footer>
             </div>
         </div>
     );
 };
 
-// --- MODAL EDITOR ---
-const EditRecordModal = ({ record, onSave, onDelete, onClose }: { 
-    record: FinancialRecord, 
-    onSave: (r: FinancialRecord) => void, 
-    onDelete: (id: string) => void,
-    onClose: () => void 
+// --- BUDGET EDITOR ---
+const BudgetModal = ({ budget, budgets, month, categories, onSave, onDelete, onClose }: {
+    budget: Budget,
+    budgets: Budget[],
+    month: string,
+    categories: Category[],
+    onSave: (b: Budget) => void,
+    onDelete?: (id: string) => void,
+    onClose: () => void
 }) => {
-    const [formData, setFormData] = useState<FinancialRecord>({ ...record });
+    const [formData, setFormData] = useState<Budget>({ ...budget });
 
-    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    // Egy meglévő alapkeretből készített egyhavi felülírás új keretként mentődik, az alapkeret marad.
+    // Kategóriánként egy alapkeret és hónaponként egy felülírás van: ha a mentett változat már létezik, azt frissítjük.
+    const save = () => {
+        const existing = budgets.find(b => b.id !== budget.id && b.category === formData.category && b.month === formData.month);
+        const isNewOverride = !!formData.month && !budget.month && !!onDelete;
+        let result: Budget = existing
+            ? { ...existing, amount: formData.amount, warnAt: formData.warnAt, carryOver: formData.month ? existing.carryOver : formData.carryOver }
+            : isNewOverride ? { ...formData, id: `budget-${Date.now()}`, carryOver: false } : formData;
+        // A korábbi hónapban szerkesztett alapkeret attól a hónaptól érvényes
+        if (!result.month && month < result.startMonth) result = { ...result, startMonth: month };
+        onSave(result);
+        // A „Minden hónap”-ra állított felülírás beolvad az alapkeretbe
+        if (budget.month && onDelete && result.id !== budget.id) onDelete(budget.id);
+        onClose();
+    };
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
         const { name, value } = e.target;
-        setFormData(prev => ({ 
-            ...prev, 
-            [name]: name === 'amount' ? parseFloat(value) || 0 : value 
-        }));
+        setFormData(prev => ({ ...prev, [name]: name === 'amount' || name === 'warnAt' ? parseFloat(value) || 0 : value }));
     };
 
     return (
         <div className="modal-overlay fade-in" onClick={onClose}>
             <div className="modal-content glass-panel" onClick={e => e.stopPropagation()}>
                 <header className="modal-header">
-                    <h3>Szerkesztés</h3>
+                    <h3>Költségkeret</h3>
                     <button className="icon-btn" onClick={onClose}><Icon name="close" /></button>
                 </header>
-                
+
                 <div className="modal-body">
                     <div className="input-group">
-                        <label>Megnevezés</label>
-                        <input name="name" value={formData.name} onChange={handleChange} placeholder="Pl. Élelmiszer" />
+                        <label>Kategória</label>
+                        <CategorySelect
+                            categories={categories}
+                            value={formData.category}
+                            onChange={category => setFormData(prev => ({ ...prev, category }))}
+                            extraOptions={[{ value: TOTAL_BUDGET, label: 'Összesen (havi keret)' }]}
+                        />
                     </div>
-                    
+
                     <div className="input-group">
-                        <label>Összeg (HUF)</label>
-                        <input name="amount" type="number" value={formData.amount} onChange={handleChange} placeholder="Pl. -5000" />
+                        <label>Keret (HUF)</label>
+                        <input name="amount" type="number" value={formData.amount} onChange={handleChange} placeholder="Pl. 80000" />
                     </div>
 
                     <div className="input-group">
-                        <label>Dátum</label>
-                        <input name="date" type="date" value={formData.date} onChange={handleChange} />
+                        <label>Érvényesség</label>
+                        <div className="scope-toggle">
+                            <button className={`voice-chip ${!formData.month ? 'active' : ''}`} onClick={() => setFormData(prev => ({ ...prev, month: undefined }))}>Minden hónap</button>
+                            <button className={`voice-chip ${formData.month ? 'active' : ''}`} onClick={() => setFormData(prev => ({ ...prev, month }))}>Csak {formatMonth(month)}</button>
+                        </div>
                     </div>
 
                     <div className="input-group">
-                        <label>Kategória</label>
-                        <select name="category" value={formData.category} onChange={handleChange}>
-                            <option value="Étel">Étel</option>
-                            <option value="Utazás">Utazás</option>
-                            <option value="Tech">Tech</option>
-                            <option value="Lakhatás">Lakhatás</option>
-                            <option value="Szórakozás">Szórakozás</option>
-                            <option value="Munka">Munka</option>
-                            <option value="Egyéb">Egyéb</option>
-                        </select>
+                        <label>Figyelmeztetés ennél a felhasználtságnál (%)</label>
+                        <input name="warnAt" type="number" min="1" max="100" value={formData.warnAt} onChange={handleChange} />
+                    </div>
+
+                    {!formData.month && (
+                        <label className="checkbox-row">
+                            <input type="checkbox" checked={formData.carryOver} onChange={e => setFormData(prev => ({ ...prev, carryOver: e.target.checked }))} />
+                            <span>A fel nem használt keret átvitele a következő hónapra</span>
+                        </label>
+                    )}
+                </div>
+
+                <footer className="modal-footer">
+                    {onDelete && (
+                        <button className="delete-btn" onClick={() => { onDelete(budget.id); onClose(); }}>
+                            <Icon name="delete" /> Törlés
+                        </button>
+                    )}
+                    <button className="save-btn" onClick={save}>
+                        Mentés
+                    </button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+// --- EXCHANGE RATE EDITOR ---
+const ExchangeRatesModal = ({ rates, onSave, onDelete, onClose }: {
+    rates: ExchangeRate[],
+    onSave: (r: ExchangeRate) => void,
+    onDelete: (id: string) => void,
+    onClose: () => void
+}) => {
+    const [newCode, setNewCode] = useState('');
+    const [newRate, setNewRate] = useState('');
+    const [importText, setImportText] = useState('');
+    const [importResult, setImportResult] = useState('');
+    // Gépelés közbeni szöveg árfolyamonként; csak pozitív érték mentődik, különben minden átváltás nullára esne
+    const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+    const editRate = (rate: ExchangeRate, text: string) => {
+        setDrafts(prev => ({ ...prev, [rate.id]: text }));
+        const value = parseFloat(text.replace(',', '.'));
+        if (value > 0) onSave({ ...rate, rate: value, updatedAt: Date.now() });
+    };
+
+    const addRate = () => {
+        const code = newCode.trim().toUpperCase();
+        const rate = parseFloat(newRate.replace(',', '.'));
+        if (!isCurrencyCode(code) || code === BASE_CURRENCY || !(rate > 0)) return;
+        onSave({ id: code, rate, updatedAt: Date.now() });
+        setNewCode('');
+        setNewRate('');
+    };
+
+    const importRates = () => {
+        try {
+            const parsed = parseExchangeRates(importText).filter(r => r.id !== BASE_CURRENCY);
+            parsed.forEach(onSave);
+            setImportResult(`${parsed.length} árfolyam importálva.`);
+            setImportText('');
+        } catch (e) {
+            setImportResult('Az importált szöveg nem értelmezhető.');
+        }
+    };
+
+    return (
+        <div className="modal-overlay fade-in" onClick={onClose}>
+            <div className="modal-content glass-panel" onClick={e => e.stopPropagation()}>
+                <header className="modal-header">
+                    <h3>Árfolyamok ({BASE_CURRENCY} alapon)</h3>
+                    <button className="icon-btn" onClick={onClose}><Icon name="close" /></button>
+                </header>
+
+                <div className="modal-body">
+                    {rates.length === 0 && <div className="empty-state">Még nincs árfolyam megadva.</div>}
+                    {rates.map(rate => (
+                        <div key={rate.id} className="rate-row">
+                            <strong>1 {rate.id} =</strong>
+                            <input
+                                type="number"
+                                value={drafts[rate.id] ?? rate.rate}
+                                onChange={e => editRate(rate, e.target.value)}
+                                onBlur={() => setDrafts(({ [rate.id]: _, ...rest }) => rest)}
+                                style={drafts[rate.id] !== undefined && !(parseFloat(drafts[rate.id]) > 0) ? { borderColor: 'var(--danger)' } : undefined}
+                                title="Az árfolyamnak pozitívnak kell lennie"
+                            />
+                            <span>{BASE_CURRENCY}</span>
+                            <button className="icon-btn-mini" onClick={() => onDelete(rate.id)} title="Törlés"><Icon name="delete" /></button>
+                        </div>
+                    ))}
+
+                    <div className="rate-row">
+                        <input placeholder="EUR" value={newCode} maxLength={3} onChange={e => setNewCode(e.target.value)} style={{ width: '60px' }} />
+                        <input placeholder="Árfolyam" type="number" value={newRate} onChange={e => setNewRate(e.target.value)} />
+                        <button className="icon-btn-mini" onClick={addRate} title="Hozzáadás"><Icon name="add" /></button>
+                    </div>
+
+                    <div className="input-group" style={{ marginTop: '15px' }}>
+                        <label>Import (soronként "EUR;395,2" vagy JSON)</label>
+                        <textarea value={importText} onChange={e => setImportText(e.target.value)} placeholder={'EUR;395,2\nUSD;362,5'} />
+                        {importResult && <small className="input-hint">{importResult}</small>}
                     </div>
+                </div>
+
+                <footer className="modal-footer">
+                    <button className="save-btn" onClick={importRates} disabled={!importText.trim()}>Importálás</button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+// --- HEALTH SCORE BREAKDOWN ---
+const HealthScoreModal = ({ score, components, weights, history, onSaveWeights, onClose }: {
+    score: number | null,
+    components: HealthComponent[],
+    weights: HealthWeights,
+    history: HealthSnapshot[],
+    onSaveWeights: (w: HealthWeights) => void,
+    onClose: () => void
+}) => {
+    const [formData, setFormData] = useState<HealthWeights>({ ...weights });
+    const totalWeight = components.filter(c => c.score !== null).reduce((sum, c) => sum + formData[c.key], 0);
+    const recentHistory = [...history].sort((a, b) => a.id.localeCompare(b.id)).slice(-12);
+
+    const save = () => {
+        onSaveWeights(formData);
+        onClose();
+    };
+
+    return (
+        <div className="modal-overlay fade-in" onClick={onClose}>
+            <div className="modal-content glass-panel" onClick={e => e.stopPropagation()}>
+                <header className="modal-header">
+                    <h3>Pénzügyi Pontszám: {score ?? '–'}</h3>
+                    <button className="icon-btn" onClick={onClose}><Icon name="close" /></button>
+                </header>
+
+                <div className="modal-body">
+                    {components.map(c => (
+                        <div key={c.key} className={`health-component ${c.score === null ? 'inactive' : ''}`}>
+                            <div className="health-component-head">
+                                <span>{HEALTH_LABELS[c.key]}</span>
+                                <strong>{c.score ?? '–'}</strong>
+                            </div>
+                            <div className="budget-bar-container">
+                                <div className={`budget-bar-fill ${c.score !== null && c.score < 40 ? 'danger' : c.score !== null && c.score < 70 ? 'warning' : ''}`} style={{ width: `${c.score ?? 0}%` }}></div>
+                            </div>
+                            <p>{c.detail}</p>
+                            <label className="health-weight">
+                                <span>Súly{c.score !== null && totalWeight > 0 ? ` (${Math.round((formData[c.key] / totalWeight) * 100)}%)` : ''}</span>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    max="100"
+                                    value={formData[c.key]}
+                                    onChange={e => setFormData(prev => ({ ...prev, [c.key]: Math.max(0, parseFloat(e.target.value) || 0) }))}
+                                />
+                            </label>
+                        </div>
+                    ))}
 
                     <div className="input-group">
-                        <label>Megjegyzés</label>
-                        <textarea name="comment" value={formData.comment} onChange={handleChange} placeholder="További részletek..." />
+                        <label>Előzmények</label>
+                        {recentHistory.length === 0 ? (
+                            <div className="empty-state">Még nincs mentett pontszám.</div>
+                        ) : (
+                            <div className="health-history">
+                                {recentHistory.map(h => (
+                                    <div key={h.id} className="health-history-bar" title={`${formatMonth(h.id)}: ${h.score}`}>
+                                        <div style={{ height: `${h.score}%` }}></div>
+                                        <span>{shortMonth(h.id)}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
                     </div>
                 </div>
 
                 <footer className="modal-footer">
-                    <button className="delete-btn" onClick={() => { onDelete(record.id); onClose(); }}>
-                        <Icon name="delete" /> Törlés
+                    <button className="delete-btn" onClick={() => setFormData({ ...DEFAULT_HEALTH_WEIGHTS })}>
+                        <Icon name="restart_alt" /> Alapértékek
                     </button>
-                    <button className="save-btn" onClick={() => { onSave(formData); onClose(); }}>
+                    <button className="save-btn" onClick={save}>
                         Mentés
                     </button>
                 </footer>
@@ -222,35 +2677,385 @@ const EditRecordModal = ({ record, onSave, onDelete, onClose }: {
     );
 };
 
+// --- CATEGORY MANAGER ---
+const CategoryManagerModal = ({ categories, records, rules, onSave, onRename, onMerge, onSaveRule, onDeleteRule, onClose }: {
+    categories: Category[],
+    records: FinancialRecord[],
+    rules: CategoryRule[],
+    onSave: (c: Category) => void,
+    onRename: (id: string, name: string) => void,
+    onMerge: (sourceId: string, targetId: string) => void,
+    onSaveRule: (r: CategoryRule) => void,
+    onDeleteRule: (id: string) => void,
+    onClose: () => void
+}) => {
+    const [tab, setTab] = useState<'categories' | 'rules'>('categories');
+    const [newRule, setNewRule] = useState({ pattern: '', category: fallbackCategoryName(categories), minAmount: '', maxAmount: '' });
+    const [drafts, setDrafts] = useState<Record<string, string>>({});
+    const [newName, setNewName] = useState('');
+    const [merging, setMerging] = useState<{ sourceId: string, targetId: string } | null>(null);
+
+    const isNameTaken = (name: string, exceptId?: string) =>
+        categories.some(c => c.id !== exceptId && getCategorySlug(c.name) === getCategorySlug(name));
+
+    const commitRename = (category: Category) => {
+        const name = drafts[category.id]?.trim();
+        setDrafts(prev => { const { [category.id]: _, ...rest } = prev; return rest; });
+        if (name && name !== category.name && !isNameTaken(name, category.id)) onRename(category.id, name);
+    };
+
+    const addCategory = () => {
+        const name = newName.trim();
+        if (!name || isNameTaken(name)) return;
+        onSave(newCategory(name, Math.max(0, ...categories.map(c => c.order)) + 1));
+        setNewName('');
+    };
+
+    const parseBound = (value: string) => value.trim() === '' || isNaN(parseFloat(value)) ? undefined : parseFloat(value);
+    const canAddRule = !!newRule.pattern.trim() || parseBound(newRule.minAmount) !== undefined || parseBound(newRule.maxAmount) !== undefined;
+
+    const addRule = () => {
+        if (!canAddRule) return;
+        onSaveRule({
+            id: `crule-${Date.now()}`,
+            pattern: newRule.pattern.trim(),
+            category: newRule.category,
+            minAmount: parseBound(newRule.minAmount),
+            maxAmount: parseBound(newRule.maxAmount)
+        });
+        setNewRule(prev => ({ ...prev, pattern: '', minAmount: '', maxAmount: '' }));
+    };
+
+    const describeRange = (rule: CategoryRule) => rule.minAmount !== undefined && rule.maxAmount !== undefined
+        ? `${formatCurrency(rule.minAmount)} – ${formatCurrency(rule.maxAmount)}`
+        : rule.minAmount !== undefined ? `≥ ${formatCurrency(rule.minAmount)}`
+        : rule.maxAmount !== undefined ? `≤ ${formatCurrency(rule.maxAmount)}` : '';
+
+    const usageCount = (name: string) => records.filter(r => recordParts(r).some(p => p.category === name)).length;
+    const mergeSource = merging && categories.find(c => c.id === merging.sourceId);
+    const mergeTarget = merging && categories.find(c => c.id === merging.targetId);
+
+    return (
+        <div className="modal-overlay fade-in" onClick={onClose}>
+            <div className="modal-content glass-panel category-manager" onClick={e => e.stopPropagation()}>
+                <header className="modal-header">
+                    <h3>Kategóriák</h3>
+                    <button className="icon-btn" onClick={onClose}><Icon name="close" /></button>
+                </header>
+
+                <div className="scope-toggle" style={{ marginBottom: '10px' }}>
+                    <button className={`voice-chip ${tab === 'categories' ? 'active' : ''}`} onClick={() => setTab('categories')}>Kategóriák</button>
+                    <button className={`voice-chip ${tab === 'rules' ? 'active' : ''}`} onClick={() => setTab('rules')}>Automatikus szabályok</button>
+                </div>
+
+                {tab === 'rules' && (
+                    <div className="modal-body custom-scrollbar" style={{ maxHeight: '60vh', overflowY: 'auto' }}>
+                        {rules.length === 0 && <div className="empty-state">Még nincs szabály. Szabály nélkül a korábbi tételeid alapján javaslunk kategóriát.</div>}
+                        {rules.map(rule => (
+                            <div key={rule.id} className="rate-row">
+                                <span style={{ flex: 1, fontSize: '13px' }}>
+                                    {rule.pattern ? <>„{rule.pattern}”</> : 'Bármely név'}
+                                    {describeRange(rule) && <small className="input-hint"> • {describeRange(rule)}</small>}
+                                </span>
+                                <Icon name="arrow_forward" style={{ fontSize: '14px', color: 'var(--text-muted)' }} />
+                                <CategoryTag name={rule.category} categories={categories} />
+                                <button className="icon-btn-mini" onClick={() => onDeleteRule(rule.id)} title="Törlés"><Icon name="delete" /></button>
+                            </div>
+                        ))}
+
+                        <div className="input-group" style={{ marginTop: '15px' }}>
+                            <label>Új szabály: a név tartalmazza</label>
+                            <input value={newRule.pattern} onChange={e => setNewRule(prev => ({ ...prev, pattern: e.target.value }))} placeholder="Pl. Tesco" />
+                        </div>
+                        <div className="input-row">
+                            <div className="input-group">
+                                <label>Összeg min.</label>
+                                <input type="number" value={newRule.minAmount} onChange={e => setNewRule(prev => ({ ...prev, minAmount: e.target.value }))} placeholder="Pl. -20000" />
+                            </div>
+                            <div className="input-group">
+                                <label>Összeg max.</label>
+                                <input type="number" value={newRule.maxAmount} onChange={e => setNewRule(prev => ({ ...prev, maxAmount: e.target.value }))} placeholder="Pl. -1000" />
+                            </div>
+                        </div>
+                        <div className="input-group">
+                            <label>Kategória</label>
+                            <CategorySelect categories={categories} value={newRule.category} onChange={category => setNewRule(prev => ({ ...prev, category }))} />
+                        </div>
+                        <button className="save-btn w-full" onClick={addRule} disabled={!canAddRule}>Szabály hozzáadása</button>
+                        <small className="input-hint">A szabályok sorrendben értékelődnek, az első illeszkedő dönt. Az összegek előjelesek (kiadás negatív).</small>
+                    </div>
+                )}
+
+                {tab === 'categories' && (
+                    <div className="modal-body custom-scrollbar" style={{ maxHeight: '60vh', overflowY: 'auto' }}>
+                        {mergeSource && mergeTarget && (
+                            <div className="merge-confirm warning-text">
+                                <span>„{mergeSource.name}” összevonása ide: „{mergeTarget.name}”. {usageCount(mergeSource.name)} tétel kerül át.</span>
+                                <div style={{ display: 'flex', gap: '6px' }}>
+                                    <button className="confirm-btn" onClick={() => { onMerge(mergeSource.id, mergeTarget.id); setMerging(null); }}>Összevonás</button>
+                                    <button className="cancel-btn" onClick={() => setMerging(null)}>Mégse</button>
+                                </div>
+                            </div>
+                        )}
+
+                        {orderedCategories(categories).map(category => {
+                            const hasChildren = categories.some(c => c.parentId === category.id);
+                            const isFallback = category.id === FALLBACK_CATEGORY_ID;
+                            return (
+                                <div key={category.id} className={`category-row ${category.parentId ? 'child' : ''} ${category.archived ? 'archived' : ''}`}>
+                                    <input type="color" value={category.color} onChange={e => onSave({ ...category, color: e.target.value })} title="Szín" />
+                                    <Icon name={category.icon} style={{ color: category.color, fontSize: '18px' }} />
+                                    <div className="category-fields">
+                                        <input
+                                            className="category-name"
+                                            value={drafts[category.id] ?? category.name}
+                                            onChange={e => setDrafts(prev => ({ ...prev, [category.id]: e.target.value }))}
+                                            onBlur={() => commitRename(category)}
+                                            onKeyDown={e => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                                        />
+                                        <div className="category-meta">
+                                            <input
+                                                className="category-icon"
+                                                value={category.icon}
+                                                onChange={e => onSave({ ...category, icon: e.target.value.trim() || 'label' })}
+                                                title="Material ikon neve"
+                                            />
+                                            <select
+                                                className="mini-select"
+                                                value={category.parentId || ''}
+                                                disabled={hasChildren}
+                                                onChange={e => onSave({ ...category, parentId: e.target.value || undefined })}
+                                                title="Főkategória"
+                                            >
+                                                <option value="">Főkategória</option>
+                                                {categories.filter(c => !c.parentId && c.id !== category.id).map(c => <option key={c.id} value={c.id}>↳ {c.name}</option>)}
+                                            </select>
+                                            {!isFallback && (
+                                                <select className="mini-select" value="" onChange={e => e.target.value && setMerging({ sourceId: category.id, targetId: e.target.value })} title="Összevonás">
+                                                    <option value="">Összevonás…</option>
+                                                    {categories.filter(c => c.id !== category.id).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                                                </select>
+                                            )}
+                                            <small>{usageCount(category.name)} tétel</small>
+                                        </div>
+                                    </div>
+                                    {!isFallback && (
+                                        <button className="icon-btn-mini" onClick={() => onSave({ ...category, archived: !category.archived })} title={category.archived ? 'Visszaállítás' : 'Archiválás'}>
+                                            <Icon name={category.archived ? 'unarchive' : 'archive'} />
+                                        </button>
+                                    )}
+                                </div>
+                            );
+                        })}
+
+                        <div className="rate-row" style={{ marginTop: '10px' }}>
+                            <input placeholder="Új kategória" value={newName} onChange={e => setNewName(e.target.value)} onKeyDown={e => e.key === 'Enter' && addCategory()} />
+                            <button className="icon-btn-mini" onClick={addCategory} disabled={!newName.trim() || isNameTaken(newName.trim())} title="Hozzáadás"><Icon name="add" /></button>
+                        </div>
+                        <small className="input-hint">Az átnevezés és az összevonás a meglévő tételeket, szabályokat és kereteket is átírja. Az archivált kategória nem választható többé, de a régi tételeken megmarad.</small>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+// --- CHARTS ---
+const categoryColor = (categories: Category[], name: string) => categories.find(c => c.name === name)?.color ?? '#94a3b8';
+const shortMonth = (month: string) => new Date(`${month}-01T00:00:00Z`).toLocaleDateString('hu-HU', { month: 'short', timeZone: 'UTC' });
+
+// Kördiagram a health-score gyűrűhöz hasonló, 100 egység kerületű körívekkel
+const DonutChart = ({ slices, categories, onSelect }: {
+    slices: { category: string, amount: number }[],
+    categories: Category[],
+    onSelect: (category: string) => void
+}) => {
+    const total = slices.reduce((sum, s) => sum + s.amount, 0);
+    let offset = 0;
+    return (
+        <div className="donut-chart">
+            <svg viewBox="0 0 42 42">
+                <circle className="circle-bg" cx="21" cy="21" r="15.9155" />
+                {slices.map(s => {
+                    const percent = (s.amount / total) * 100;
+                    const dashOffset = 25 - offset;
+                    offset += percent;
+                    return (
+                        <circle
+                            key={s.category}
+                            className="donut-slice"
+                            cx="21" cy="21" r="15.9155"
+                            stroke={categoryColor(categories, s.category)}
+                            strokeDasharray={`${percent} ${100 - percent}`}
+                            strokeDashoffset={dashOffset}
+                            onClick={() => onSelect(s.category)}
+                        >
+                            <title>{s.category}: {formatCurrency(s.amount)}</title>
+                        </circle>
+                    );
+                })}
+                <text x="21" y="20" className="donut-total">{formatCurrency(total)}</text>
+                <text x="21" y="25" className="donut-caption">kiadás</text>
+            </svg>
+            <div className="donut-legend">
+                {slices.map(s => (
+                    <div key={s.category} className="legend-row" onClick={() => onSelect(s.category)}>
+                        <CategoryTag name={s.category} categories={categories} />
+                        <span>{formatCurrency(s.amount)}</span>
+                        <small>{Math.round((s.amount / total) * 100)}%</small>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const IncomeExpenseChart = ({ months, selected, onSelect }: {
+    months: { month: string, income: number, expense: number }[],
+    selected: string,
+    onSelect: (month: string) => void
+}) => {
+    const max = Math.max(1, ...months.flatMap(m => [m.income, m.expense]));
+    const slot = 300 / months.length;
+    const barWidth = slot / 3;
+    const height = (value: number) => (value / max) * 100;
+    return (
+        <svg viewBox="0 0 300 120" className="bar-chart">
+            {months.map((m, i) => (
+                <g key={m.month} className={`bar-group ${m.month === selected ? 'active' : ''}`} onClick={() => onSelect(m.month)}>
+                    <rect className="bar-hit" x={i * slot} y="0" width={slot} height="120" />
+                    <rect className="bar income" x={i * slot + slot / 2 - barWidth} y={105 - height(m.income)} width={barWidth - 1} height={height(m.income)}>
+                        <title>{formatMonth(m.month)} bevétel: {formatCurrency(m.income)}</title>
+                    </rect>
+                    <rect className="bar expense" x={i * slot + slot / 2} y={105 - height(m.expense)} width={barWidth - 1} height={height(m.expense)}>
+                        <title>{formatMonth(m.month)} kiadás: {formatCurrency(m.expense)}</title>
+                    </rect>
+                    <text x={i * slot + slot / 2} y="117" className="chart-label">{shortMonth(m.month)}</text>
+                </g>
+            ))}
+        </svg>
+    );
+};
+
+const BalanceLineChart = ({ points, selected, onSelect }: {
+    points: { month: string, balance: number }[],
+    selected: string,
+    onSelect: (month: string) => void
+}) => {
+    const values = points.map(p => p.balance);
+    const min = Math.min(0, ...values);
+    const max = Math.max(1, ...values);
+    const x = (i: number) => points.length === 1 ? 150 : 10 + (i * 280) / (points.length - 1);
+    const y = (value: number) => 100 - ((value - min) / (max - min)) * 90;
+    return (
+        <svg viewBox="0 0 300 120" className="line-chart">
+            <line className="zero-line" x1="0" x2="300" y1={y(0)} y2={y(0)} />
+            <polyline className="balance-line" points={points.map((p, i) => `${x(i)},${y(p.balance)}`).join(' ')} />
+            {points.map((p, i) => (
+                <g key={p.month} onClick={() => onSelect(p.month)} className={`line-point ${p.month === selected ? 'active' : ''}`}>
+                    <circle cx={x(i)} cy={y(p.balance)} r={p.month === selected ? 4 : 3}>
+                        <title>{formatMonth(p.month)} vége: {formatCurrency(p.balance)}</title>
+                    </circle>
+                    <text x={x(i)} y="117" className="chart-label">{shortMonth(p.month)}</text>
+                </g>
+            ))}
+        </svg>
+    );
+};
+
 // --- DASHBOARD VIEW ---
-const DashboardView = ({ records, isOnline }: { records: FinancialRecord[], isOnline: boolean }) => {
-    const [analysis, setAnalysis] = useState<string>('');
+const INSIGHT_ICONS: Record<InsightKind, string> = {
+    forecast: 'query_stats',
+    anomaly: 'warning',
+    subscription: 'subscriptions'
+};
+
+const DashboardView = ({ records: ledgerRecords, recurringRules, budgets, rates, categories, healthWeights, healthHistory, onShowCategory, onSaveBudget, onDeleteBudget, onSaveRate, onDeleteRate, onSaveHealthWeights, onRecordHealthScore, analysis, onAnalysisChange, isOnline, outbox }: { 
+    records: FinancialRecord[], 
+    recurringRules: RecurringRule[],
+    budgets: Budget[],
+    rates: ExchangeRate[],
+    categories: Category[],
+    healthWeights: HealthWeights,
+    healthHistory: HealthSnapshot[],
+    onShowCategory: (category: string, month: string) => void,
+    onSaveRate: (r: ExchangeRate) => void,
+    onDeleteRate: (id: string) => void,
+    onSaveBudget: (b: Budget) => void,
+    onDeleteBudget: (id: string) => void,
+    onSaveHealthWeights: (w: HealthWeights) => void,
+    onRecordHealthScore: (s: HealthSnapshot) => void,
+    analysis: string,
+    onAnalysisChange: (text: string) => void,
+    isOnline: boolean, 
+    outbox: OutboxControls 
+}) => {
     const [isAnalyzing, setIsAnalyzing] = useState(false);
-    const [monthlyBudget, setMonthlyBudget] = useState(300000);
-    const formatCurrency = (val: number) => new Intl.NumberFormat('hu-HU', { style: 'currency', currency: 'HUF', maximumFractionDigits: 0 }).format(val);
+    const [month, setMonth] = useState(() => monthOf(toIsoDate(new Date())));
+    const [editingBudget, setEditingBudget] = useState<{ budget: Budget, isNew: boolean } | null>(null);
+    const [showRates, setShowRates] = useState(false);
+    const [showHealth, setShowHealth] = useState(false);
+    const [chartTab, setChartTab] = useState<'categories' | 'history' | 'balance' | 'compare'>('categories');
+
+    // Minden összesítés alap pénznemben készül; árfolyam nélküli tételek kimaradnak és jelezzük őket
+    const records = useMemo(() => ledgerRecords
+        .map(r => toBaseRecord(r, rates))
+        .filter((r): r is FinancialRecord => r !== null), [ledgerRecords, rates]);
+    const missingRates = [...new Set(ledgerRecords.filter(r => convertToBase(r.amount, r.currency, rates) === null).map(r => r.currency!))];
 
-    const income = records.filter(r => r.amount > 0).reduce((acc, r) => acc + r.amount, 0);
-    const expenses = Math.abs(records.filter(r => r.amount < 0).reduce((acc, r) => acc + r.amount, 0));
-    const savingsRate = income > 0 ? ((income - expenses) / income) * 100 : 0;
-    const healthScore = Math.max(0, Math.min(100, Math.round(savingsRate + 50)));
+    const monthRecords = records.filter(r => monthOf(r.date) === month);
+    const income = monthRecords.filter(r => r.amount > 0).reduce((acc, r) => acc + r.amount, 0);
+    const expenses = Math.abs(monthRecords.filter(r => r.amount < 0).reduce((acc, r) => acc + r.amount, 0));
+    const health = useMemo(() => computeHealthScore(records, budgets, healthWeights, month), [records, budgets, healthWeights, month]);
+    const weakest = health.components
+        .filter(c => c.score !== null && healthWeights[c.key] > 0)
+        .reduce<HealthComponent | null>((min, c) => !min || c.score! < min.score! ? c : min, null);
+    const previousSnapshot = healthHistory.find(h => h.id === shiftMonth(month, -1));
+
+    // Az aktuális hónap pontszáma előzményként mentődik, hogy később is visszakövethető legyen
+    useEffect(() => {
+        if (month !== monthOf(toIsoDate(new Date())) || health.score === null) return;
+        const components = Object.fromEntries(health.components.filter(c => c.score !== null).map(c => [c.key, c.score!]));
+        const saved = healthHistory.find(h => h.id === month);
+        if (saved && saved.score === health.score && sameFieldValue(saved.components, components)) return;
+        onRecordHealthScore({ id: month, score: health.score, components, recordedAt: Date.now() });
+    }, [health, month]);
     
-    const budgetUsedPercent = Math.min(100, (expenses / monthlyBudget) * 100);
+    const totalStatus = budgetStatus(budgets, records, TOTAL_BUDGET, month);
+    const categoryStatuses = orderedCategories(categories)
+        .map(c => c.name)
+        .map(category => ({ category, status: budgetStatus(budgets, records, category, month) }))
+        .filter(c => c.status !== null)
+        .map(c => ({ category: c.category, status: c.status! }));
+    const warnings = categoryStatuses.filter(c => c.status.percent >= c.status.budget.warnAt);
+
+    const categorySpending = useMemo(() => spendingByCategory(records, month), [records, month]);
+    const history = useMemo(() => monthlyTotals(records, month, CHART_MONTHS), [records, month]);
+    const balance = useMemo(() => runningBalance(records, month, CHART_MONTHS), [records, month]);
+    const comparison = useMemo(() => compareWithPreviousMonth(records, month), [records, month]);
+    const insights = useMemo(() => buildInsights(records, recurringRules, rates, month, toIsoDate(new Date())), [records, recurringRules, rates, month]);
+
+    const openBudget = (category: string) => {
+        const status = category === TOTAL_BUDGET ? totalStatus : categoryStatuses.find(c => c.category === category)?.status;
+        // A kezdő hónapja előtti hónapban is a meglévő alapkeret nyílik meg, nem jön létre másik
+        const base = status?.budget ?? budgets.find(b => b.category === category && !b.month);
+        setEditingBudget(base
+            ? { budget: base, isNew: false }
+            : { budget: { id: `budget-${Date.now()}`, category, amount: 0, startMonth: month, carryOver: false, warnAt: 80 }, isNew: true });
+    };
+
+    const queuedAnalysis = outbox.items.find(i => i.kind === 'analysis');
 
     const requestAiAnalysis = async () => {
-        if (!isOnline) return;
+        if (!isOnline) {
+            if (!queuedAnalysis) outbox.enqueue('analysis', '');
+            return;
+        }
         setIsAnalyzing(true);
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-            const prompt = `Íme a pénzügyi adataim: ${records.map(r => `${r.name}: ${r.amount} Ft (${r.category})`).join(', ')}. 
-            Kérlek elemezd a pénzügyi helyzetemet. Emeld ki a legnagyobb kiadásokat és adj 3 konkrét tippet a spórolásra. Tömör légy.`;
-            
-            const response = await ai.models.generateContent({
-                model: 'gemini-3-pro-preview',
-                contents: prompt
-            });
-            setAnalysis(response.text || 'Nem sikerült elemezni.');
+            onAnalysisChange(await runLedgerAnalysis({ records: ledgerRecords, rates }));
         } catch (e) {
-            setAnalysis('Hiba történt az elemzés során.');
+            onAnalysisChange('Hiba történt az elemzés során.');
         } finally {
             setIsAnalyzing(false);
         }
@@ -260,21 +3065,62 @@ const DashboardView = ({ records, isOnline }: { records: FinancialRecord[], isOn
         <div className="view-container">
             <header className="view-header">
                 <h2>Vezérlőpult</h2>
-                <Icon name="dashboard" />
+                <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                    <button className="icon-btn-mini" onClick={() => setShowRates(true)} title="Árfolyamok">
+                        <Icon name="currency_exchange" />
+                    </button>
+                    <Icon name="dashboard" />
+                </div>
             </header>
 
+            {missingRates.length > 0 && (
+                <div className="budget-warnings glass-panel warning-text" onClick={() => setShowRates(true)} style={{ cursor: 'pointer' }}>
+                    <div>
+                        <Icon name="currency_exchange" style={{ fontSize: '14px' }} />
+                        <span>Hiányzó árfolyam: {missingRates.join(', ')} – ezek a tételek kimaradnak az összesítésből.</span>
+                    </div>
+                </div>
+            )}
+
+            <div className="month-picker glass-panel">
+                <button className="icon-btn-mini" onClick={() => setMonth(shiftMonth(month, -1))}><Icon name="chevron_left" /></button>
+                <input type="month" value={month} onChange={e => e.target.value && setMonth(e.target.value)} />
+                <span className="month-label">{formatMonth(month)}</span>
+                <button className="icon-btn-mini" onClick={() => setMonth(shiftMonth(month, 1))}><Icon name="chevron_right" /></button>
+            </div>
+
+            {warnings.length > 0 && (
+                <div className="budget-warnings glass-panel fade-in">
+                    {warnings.map(({ category, status }) => (
+                        <div key={category} className={status.percent >= 100 ? 'danger-text' : 'warning-text'}>
+                            <Icon name={status.percent >= 100 ? "error" : "warning"} style={{ fontSize: '14px' }} />
+                            <span>
+                                {category}: {status.percent >= 100
+                                    ? `túllépve ${formatCurrency(-status.remaining)} összeggel`
+                                    : `a keret ${Math.round(status.percent)}%-a elfogyott`}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
             <div className="summary-grid">
-                <div className="summary-card glass-panel" style={{ gridColumn: 'span 2', padding: '20px' }}>
+                <div className="summary-card glass-panel" style={{ gridColumn: 'span 2', padding: '20px', cursor: 'pointer' }} onClick={() => openBudget(TOTAL_BUDGET)}>
                     <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px' }}>
                         <span className="label">Havi költségkeret</span>
-                        <span className="value" style={{ fontSize: '14px' }}>{formatCurrency(monthlyBudget - expenses)} maradt</span>
+                        <span className="value" style={{ fontSize: '14px' }}>
+                            {totalStatus ? `${formatCurrency(totalStatus.remaining)} maradt` : 'Nincs beállítva'}
+                        </span>
                     </div>
                     <div className="budget-bar-container">
-                        <div className={`budget-bar-fill ${budgetUsedPercent > 90 ? 'danger' : budgetUsedPercent > 70 ? 'warning' : ''}`} style={{ width: `${budgetUsedPercent}%` }}></div>
+                        <div className={`budget-bar-fill ${totalStatus ? budgetBarClass(totalStatus.percent, totalStatus.budget.warnAt) : ''}`} style={{ width: `${Math.min(100, totalStatus?.percent ?? 0)}%` }}></div>
                     </div>
                     <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '8px', fontSize: '11px', color: 'var(--text-muted)' }}>
                         <span>Elköltve: {formatCurrency(expenses)}</span>
-                        <span>Keret: {formatCurrency(monthlyBudget)}</span>
+                        <span>
+                            Keret: {totalStatus ? formatCurrency(totalStatus.limit) : '—'}
+                            {totalStatus && totalStatus.carried > 0 && ` (+${formatCurrency(totalStatus.carried)} átvitel)`}
+                        </span>
                     </div>
                 </div>
 
@@ -288,28 +3134,131 @@ const DashboardView = ({ records, isOnline }: { records: FinancialRecord[], isOn
                 </div>
             </div>
 
-            <div className="glass-panel health-card" style={{ marginBottom: '20px', textAlign: 'center', padding: '20px', display: 'flex', alignItems: 'center', gap: '20px' }}>
+            <div className="glass-panel category-budgets">
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px' }}>
+                    <span className="section-title">Kategória keretek</span>
+                    <select className="mini-select" value="" onChange={e => e.target.value && openBudget(e.target.value)}>
+                        <option value="">+ Keret</option>
+                        {activeCategoryNames(categories).filter(c => !categoryStatuses.some(s => s.category === c)).map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                </div>
+                {categoryStatuses.length === 0 ? (
+                    <div className="empty-state">Még nincs kategória keret.</div>
+                ) : categoryStatuses.map(({ category, status }) => (
+                    <div key={category} className="category-budget-row" onClick={() => openBudget(category)}>
+                        <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px' }}>
+                            <CategoryTag name={category} categories={categories} />
+                            <span style={{ color: 'var(--text-muted)' }}>{formatCurrency(status.spent)} / {formatCurrency(status.limit)}</span>
+                        </div>
+                        <div className="budget-bar-container" style={{ marginTop: '6px' }}>
+                            <div className={`budget-bar-fill ${budgetBarClass(status.percent, status.budget.warnAt)}`} style={{ width: `${Math.min(100, status.percent)}%` }}></div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {insights.length > 0 && (
+                <div className="insight-list">
+                    {insights.map(insight => (
+                        <div
+                            key={insight.id}
+                            className={`glass-panel insight-card ${insight.severity}`}
+                            onClick={insight.category ? () => onShowCategory(insight.category!, month) : undefined}
+                        >
+                            <Icon name={INSIGHT_ICONS[insight.kind]} className="insight-icon" />
+                            <div className="insight-body">
+                                <div className="insight-title">
+                                    <span>{insight.title}</span>
+                                    <strong>{formatCurrency(insight.amount)}</strong>
+                                </div>
+                                <p>{insight.detail}</p>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <div className="glass-panel charts-panel">
+                <div className="scope-toggle chart-tabs">
+                    <button className={`voice-chip ${chartTab === 'categories' ? 'active' : ''}`} onClick={() => setChartTab('categories')}>Kategóriák</button>
+                    <button className={`voice-chip ${chartTab === 'history' ? 'active' : ''}`} onClick={() => setChartTab('history')}>Bevétel / kiadás</button>
+                    <button className={`voice-chip ${chartTab === 'balance' ? 'active' : ''}`} onClick={() => setChartTab('balance')}>Egyenleg</button>
+                    <button className={`voice-chip ${chartTab === 'compare' ? 'active' : ''}`} onClick={() => setChartTab('compare')}>Előző hónap</button>
+                </div>
+
+                {chartTab === 'categories' && (categorySpending.length === 0
+                    ? <div className="empty-state">Ebben a hónapban nincs kiadás.</div>
+                    : <DonutChart slices={categorySpending} categories={categories} onSelect={category => onShowCategory(category, month)} />
+                )}
+
+                {chartTab === 'history' && (
+                    <>
+                        <IncomeExpenseChart months={history} selected={month} onSelect={setMonth} />
+                        <div className="chart-legend">
+                            <span><i className="legend-dot income"></i>Bevétel</span>
+                            <span><i className="legend-dot expense"></i>Kiadás</span>
+                        </div>
+                    </>
+                )}
+
+                {chartTab === 'balance' && <BalanceLineChart points={balance} selected={month} onSelect={setMonth} />}
+
+                {chartTab === 'compare' && (comparison.length === 0
+                    ? <div className="empty-state">Nincs összehasonlítható kiadás.</div>
+                    : (
+                        <div className="comparison-list">
+                            <div className="comparison-row comparison-head">
+                                <span>{formatMonth(shiftMonth(month, -1))} → {formatMonth(month)}</span>
+                            </div>
+                            {comparison.map(c => (
+                                <div key={c.category} className="comparison-row" onClick={() => onShowCategory(c.category, month)}>
+                                    <CategoryTag name={c.category} categories={categories} />
+                                    <span className="comparison-values">{formatCurrency(c.previous)} → {formatCurrency(c.current)}</span>
+                                    <span className={c.change > 0 ? 'danger-text' : c.change < 0 ? 'success-text' : ''}>
+                                        <Icon name={c.change > 0 ? 'trending_up' : c.change < 0 ? 'trending_down' : 'trending_flat'} style={{ fontSize: '14px', verticalAlign: 'middle' }} />
+                                        {c.previous > 0 ? ` ${c.change > 0 ? '+' : ''}${Math.round((c.change / c.previous) * 100)}%` : ' új'}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    )
+                )}
+            </div>
+
+            <div className="glass-panel health-card" onClick={() => setShowHealth(true)} style={{ marginBottom: '20px', textAlign: 'center', padding: '20px', display: 'flex', alignItems: 'center', gap: '20px', cursor: 'pointer' }}>
                 <div className="health-score-container" style={{ width: '80px', margin: 0 }}>
                     <svg viewBox="0 0 36 36" className="circular-chart">
                         <path className="circle-bg" d="M18 2.0845 a 15.9155 15.9155 0 0 1 0 31.831 a 15.9155 15.9155 0 0 1 0 -31.831" />
-                        <path className="circle" strokeDasharray={`${healthScore}, 100`} d="M18 2.0845 a 15.9155 15.9155 0 0 1 0 31.831 a 15.9155 15.9155 0 0 1 0 -31.831" />
-                        <text x="18" y="20.35" className="percentage" style={{ fontSize: '8px' }}>{healthScore}%</text>
+                        <path className="circle" strokeDasharray={`${health.score ?? 0}, 100`} d="M18 2.0845 a 15.9155 15.9155 0 0 1 0 31.831 a 15.9155 15.9155 0 0 1 0 -31.831" />
+                        <text x="18" y="20.35" className="percentage" style={{ fontSize: '8px' }}>{health.score ?? '–'}</text>
                     </svg>
                 </div>
                 <div style={{ textAlign: 'left' }}>
                     <h3 style={{ margin: '0 0 5px 0', fontSize: '16px' }}>Pénzügyi Pontszám</h3>
-                    <p style={{ fontSize: '12px', color: 'var(--text-muted)', margin: 0 }}>Megtakarítási ráta: {savingsRate.toFixed(1)}%</p>
+                    <p style={{ fontSize: '12px', color: 'var(--text-muted)', margin: 0 }}>
+                        {weakest ? `Leggyengébb terület: ${HEALTH_LABELS[weakest.key]}` : 'Még nincs elég adat a pontszámhoz.'}
+                    </p>
+                    {previousSnapshot && health.score !== null && (
+                        <p style={{ fontSize: '12px', color: 'var(--text-muted)', margin: '4px 0 0' }}>
+                            Előző hónap: {previousSnapshot.score} ({health.score - previousSnapshot.score >= 0 ? '+' : ''}{health.score - previousSnapshot.score})
+                        </p>
+                    )}
                 </div>
             </div>
 
-            <div className={`ai-insights-section glass-panel ${!isOnline ? 'offline-dim' : ''}`}>
+            <div className="ai-insights-section glass-panel">
                 <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '15px' }}>
                     <span className="section-title">AI Pénzügyi Elemzés</span>
-                    <button className="icon-btn" onClick={requestAiAnalysis} disabled={isAnalyzing || !isOnline}>
-                        <Icon name={isOnline ? "auto_awesome" : "wifi_off"} style={{ color: !isOnline ? 'var(--danger)' : isAnalyzing ? 'var(--text-muted)' : 'var(--secondary)' }} />
+                    <button className="icon-btn" onClick={requestAiAnalysis} disabled={isAnalyzing || !!queuedAnalysis} title={isOnline ? 'Elemzés' : 'Elemzés sorba állítása'}>
+                        <Icon name={isOnline ? "auto_awesome" : "schedule_send"} style={{ color: isAnalyzing || queuedAnalysis ? 'var(--text-muted)' : 'var(--secondary)' }} />
                     </button>
                 </div>
-                {isAnalyzing ? (
+                {queuedAnalysis && queuedAnalysis.status !== 'done' ? (
+                    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', fontSize: '13px', color: 'var(--text-muted)' }}>
+                        <span>Az elemzés a kapcsolat helyreállásakor indul.</span>
+                        <OutboxStatusChip item={queuedAnalysis} onRetry={outbox.retry} onDiscard={outbox.remove} />
+                    </div>
+                ) : isAnalyzing ? (
                     <div className="typing-indicator"><span></span><span></span><span></span></div>
                 ) : analysis ? (
                     <div className="analysis-text fade-in">
@@ -321,42 +3270,441 @@ const DashboardView = ({ records, isOnline }: { records: FinancialRecord[], isOn
                     </p>
                 )}
             </div>
+
+            {showHealth && (
+                <HealthScoreModal
+                    score={health.score}
+                    components={health.components}
+                    weights={healthWeights}
+                    history={healthHistory}
+                    onSaveWeights={onSaveHealthWeights}
+                    onClose={() => setShowHealth(false)}
+                />
+            )}
+
+            {showRates && (
+                <ExchangeRatesModal rates={rates} onSave={onSaveRate} onDelete={onDeleteRate} onClose={() => setShowRates(false)} />
+            )}
+
+            {editingBudget && (
+                <BudgetModal
+                    budget={editingBudget.budget}
+                    budgets={budgets}
+                    month={month}
+                    categories={categories}
+                    onSave={onSaveBudget}
+                    onDelete={editingBudget.isNew ? undefined : onDeleteBudget}
+                    onClose={() => setEditingBudget(null)}
+                />
+            )}
+        </div>
+    );
+};
+
+// --- IMPORT WIZARD ---
+type ImportRow = { tx: ImportedTransaction; duplicateOf?: FinancialRecord; selected: boolean; category: string };
+
+const DATE_FORMATS: CsvDateFormat[] = ['YYYY-MM-DD', 'YYYY.MM.DD', 'DD.MM.YYYY', 'MM/DD/YYYY'];
+
+const readStatementFile = async (file: File) => {
+    const buffer = await file.arrayBuffer();
+    const utf8 = new TextDecoder('utf-8').decode(buffer);
+    // A hazai bankok CSV-i gyakran Windows-1250 kódolásúak
+    return utf8.includes('\uFFFD') ? new TextDecoder('windows-1250').decode(buffer) : utf8;
+};
+
+const ImportWizard = ({ records, categories, categorize, profiles, onSaveProfile, onImport, onClose }: {
+    records: FinancialRecord[],
+    categories: Category[],
+    categorize: Categorizer,
+    profiles: ImportProfile[],
+    onSaveProfile: (p: ImportProfile) => void,
+    onImport: (records: FinancialRecord[]) => void,
+    onClose: () => void
+}) => {
+    const [step, setStep] = useState<'source' | 'mapping' | 'preview'>('source');
+    const [rawText, setRawText] = useState('');
+    const [profile, setProfile] = useState<ImportProfile | null>(null);
+    const [rows, setRows] = useState<ImportRow[]>([]);
+    const [error, setError] = useState('');
+
+    const csvRows = useMemo(() => profile ? parseCsv(rawText, profile.delimiter) : [], [rawText, profile?.delimiter]);
+    const columnCount = Math.max(0, ...csvRows.slice(0, 5).map(r => r.length));
+    const columnLabel = (i: number) => profile?.hasHeader && csvRows[0]?.[i] ? csvRows[0][i] : `${i + 1}. oszlop`;
+
+    const showPreview = (transactions: ImportedTransaction[]) => {
+        if (transactions.length === 0) {
+            setError('Nem található importálható tétel a fájlban.');
+            return;
+        }
+        setRows(transactions.map(tx => {
+            const duplicateOf = findDuplicate(tx, records);
+            return { tx, duplicateOf, selected: !duplicateOf, category: categorize(tx)?.category ?? fallbackCategoryName(categories) };
+        }));
+        setStep('preview');
+    };
+
+    const loadText = (text: string, fileName = '') => {
+        setError('');
+        setRawText(text);
+        const format = /\.(ofx|qfx)$/i.test(fileName) ? 'ofx' : detectStatementFormat(text);
+        try {
+            if (format === 'csv') {
+                const firstLine = text.replace(/^\uFEFF/, '').split(/\r?\n/)[0] || '';
+                const delimiter = detectCsvDelimiter(firstLine);
+                const signature = parseCsv(firstLine, delimiter)[0]?.join('|') || '';
+                const known = profiles.find(p => p.headerSignature === signature);
+                setProfile(known || {
+                    id: '',
+                    headerSignature: signature,
+                    delimiter,
+                    hasHeader: true,
+                    dateFormat: 'YYYY-MM-DD',
+                    decimalSeparator: ',',
+                    columns: { date: 0, name: 1, amount: 2 }
+                });
+                setStep('mapping');
+            } else {
+                showPreview(format === 'ofx' ? parseOfx(text) : parseCamt053(text));
+            }
+        } catch (e) {
+            console.error(e);
+            setError('A fájl nem értelmezhető.');
+        }
+    };
+
+    const updateProfile = (updates: Partial<ImportProfile>) => setProfile(prev => prev && { ...prev, ...updates });
+    const updateColumn = (column: keyof ImportProfile['columns'], value: string) => setProfile(prev => prev && {
+        ...prev,
+        columns: { ...prev.columns, [column]: value === '' ? undefined : parseInt(value) }
+    });
+
+    const confirmMapping = () => {
+        if (!profile) return;
+        if (profile.id.trim()) onSaveProfile({ ...profile, id: profile.id.trim() });
+        showPreview(applyImportProfile(csvRows, profile));
+    };
+
+    const commit = () => {
+        const now = Date.now();
+        onImport(rows.filter(r => r.selected).map((r, i) => ({
+            id: `imp-${now}-${i}`,
+            name: r.tx.name,
+            amount: r.tx.amount,
+            date: r.tx.date,
+            comment: r.tx.comment,
+            category: r.category,
+            currency: r.tx.currency === BASE_CURRENCY ? undefined : r.tx.currency,
+            importId: r.tx.externalId
+        })));
+        onClose();
+    };
+
+    const columnSelect = (column: keyof ImportProfile['columns'], optional = false) => (
+        <select value={profile?.columns[column] ?? ''} onChange={e => updateColumn(column, e.target.value)}>
+            {optional && <option value="">—</option>}
+            {Array.from({ length: columnCount }, (_, i) => <option key={i} value={i}>{columnLabel(i)}</option>)}
+        </select>
+    );
+
+    const selectedCount = rows.filter(r => r.selected).length;
+    const duplicateCount = rows.filter(r => r.duplicateOf).length;
+
+    return (
+        <div className="modal-overlay fade-in" onClick={onClose}>
+            <div className="modal-content glass-panel import-wizard" onClick={e => e.stopPropagation()}>
+                <header className="modal-header">
+                    <h3>Bankszámlakivonat import</h3>
+                    <button className="icon-btn" onClick={onClose}><Icon name="close" /></button>
+                </header>
+
+                {step === 'source' && (
+                    <div className="modal-body">
+                        <p style={{ fontSize: '13px', color: 'var(--text-muted)', marginTop: 0 }}>
+                            Támogatott formátumok: CSV, OFX/QFX és ISO 20022 CAMT.053 XML.
+                        </p>
+                        <label className="file-drop">
+                            <Icon name="upload_file" />
+                            <span>Fájl kiválasztása</span>
+                            <input type="file" accept=".csv,.txt,.ofx,.qfx,.xml" onChange={async e => {
+                                const file = e.target.files?.[0];
+                                if (file) loadText(await readStatementFile(file), file.name);
+                            }} />
+                        </label>
+                        {error && <p className="danger-text" style={{ fontSize: '12px' }}>{error}</p>}
+                    </div>
+                )}
+
+                {step === 'mapping' && profile && (
+                    <div className="modal-body custom-scrollbar" style={{ maxHeight: '60vh', overflowY: 'auto' }}>
+                        <div className="input-row">
+                            <div className="input-group">
+                                <label>Bank profil</label>
+                                <input value={profile.id} onChange={e => updateProfile({ id: e.target.value })} placeholder="Pl. OTP (mentéshez)" list="import-profiles" />
+                                <datalist id="import-profiles">
+                                    {profiles.map(p => <option key={p.id} value={p.id} />)}
+                                </datalist>
+                            </div>
+                            <div className="input-group">
+                                <label>Elválasztó</label>
+                                <select value={profile.delimiter} onChange={e => updateProfile({ delimiter: e.target.value })}>
+                                    <option value=";">Pontosvessző (;)</option>
+                                    <option value=",">Vessző (,)</option>
+                                    <option value={'\t'}>Tabulátor</option>
+                                </select>
+                            </div>
+                        </div>
+
+                        <div className="input-row">
+                            <div className="input-group">
+                                <label>Dátum formátum</label>
+                                <select value={profile.dateFormat} onChange={e => updateProfile({ dateFormat: e.target.value as CsvDateFormat })}>
+                                    {DATE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+                                </select>
+                            </div>
+                            <div className="input-group">
+                                <label>Tizedesjel</label>
+                                <select value={profile.decimalSeparator} onChange={e => updateProfile({ decimalSeparator: e.target.value as ',' | '.' })}>
+                                    <option value=",">Vessző (1 234,56)</option>
+                                    <option value=".">Pont (1,234.56)</option>
+                                </select>
+                            </div>
+                        </div>
+
+                        <label className="checkbox-row" style={{ marginBottom: '15px' }}>
+                            <input type="checkbox" checked={profile.hasHeader} onChange={e => updateProfile({ hasHeader: e.target.checked })} />
+                            <span>Az első sor fejléc</span>
+                        </label>
+
+                        <div className="input-row">
+                            <div className="input-group"><label>Dátum</label>{columnSelect('date')}</div>
+                            <div className="input-group"><label>Összeg</label>{columnSelect('amount')}</div>
+                        </div>
+                        <div className="input-row">
+                            <div className="input-group"><label>Partner / megnevezés</label>{columnSelect('name')}</div>
+                            <div className="input-group"><label>Közlemény</label>{columnSelect('comment', true)}</div>
+                        </div>
+                        <div className="input-row">
+                            <div className="input-group"><label>Pénznem</label>{columnSelect('currency', true)}</div>
+                        </div>
+
+                        <span className="section-title">Minta</span>
+                        <div className="import-sample">
+                            {applyImportProfile(csvRows.slice(0, profile.hasHeader ? 4 : 3), profile).map((tx, i) => (
+                                <div key={i} className="import-row">
+                                    <span className="col-date">{tx.date}</span>
+                                    <span className="col-name">{tx.name}</span>
+                                    <span className={`col-amt ${tx.amount >= 0 ? 'success-text' : 'danger-text'}`}>{formatCurrency(tx.amount, tx.currency)}</span>
+                                </div>
+                            ))}
+                        </div>
+                        {error && <p className="danger-text" style={{ fontSize: '12px' }}>{error}</p>}
+                    </div>
+                )}
+
+                {step === 'preview' && (
+                    <div className="modal-body">
+                        <p style={{ fontSize: '12px', color: 'var(--text-muted)', marginTop: 0 }}>
+                            {rows.length} tétel, ebből {duplicateCount} valószínűleg már szerepel a naplóban (alapból kihagyva).
+                        </p>
+                        <div className="import-preview custom-scrollbar">
+                            {rows.map((row, i) => (
+                                <div key={i} className={`import-row ${row.duplicateOf ? 'duplicate' : ''}`}>
+                                    <input type="checkbox" checked={row.selected} onChange={e => setRows(prev => prev.map((r, j) => j === i ? { ...r, selected: e.target.checked } : r))} />
+                                    <div className="col-name">
+                                        <div className="r-title">{row.tx.name}</div>
+                                        <div className="r-comment">
+                                            {row.tx.date}
+                                            {row.duplicateOf && <span className="warning-text"> • Már rögzítve: {row.duplicateOf.name} ({row.duplicateOf.date})</span>}
+                                        </div>
+                                    </div>
+                                    <CategorySelect className="mini-select" categories={categories} value={row.category} onChange={category => setRows(prev => prev.map((r, j) => j === i ? { ...r, category } : r))} />
+                                    <div className={`col-amt ${row.tx.amount >= 0 ? 'success-text' : 'danger-text'}`}>{formatCurrency(row.tx.amount, row.tx.currency)}</div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                <footer className="modal-footer">
+                    {step !== 'source' && (
+                        <button className="cancel-btn" style={{ flex: 1 }} onClick={() => { setError(''); setStep(step === 'preview' && profile ? 'mapping' : 'source'); }}>Vissza</button>
+                    )}
+                    {step === 'mapping' && <button className="save-btn" onClick={confirmMapping}>Tovább</button>}
+                    {step === 'preview' && <button className="save-btn" onClick={commit} disabled={selectedCount === 0}>Importálás ({selectedCount})</button>}
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+// --- EXPORT DIALOG ---
+const ExportModal = ({ records, rates, attachments, onClose }: {
+    records: FinancialRecord[],
+    rates: ExchangeRate[],
+    attachments: Attachment[],
+    onClose: () => void
+}) => {
+    const dates = records.map(r => r.date).sort();
+    const [format, setFormat] = useState<ExportFormat>('csv');
+    const [from, setFrom] = useState(dates[0] || toIsoDate(new Date()));
+    const [to, setTo] = useState(dates[dates.length - 1] || toIsoDate(new Date()));
+
+    const selected = records
+        .filter(r => r.date >= from && r.date <= to)
+        .sort((a, b) => a.date.localeCompare(b.date));
+
+    const linked = format === 'bundle'
+        ? attachments.filter(a => selected.some(r => r.attachmentIds?.includes(a.id)))
+        : [];
+    const withoutRate = format === 'ofx' ? recordsWithoutOfxRate(selected, rates) : [];
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState('');
+
+    const runExport = async () => {
+        const { extension } = EXPORT_FORMATS[format];
+        setBusy(true);
+        setError('');
+        try {
+            const files = await Promise.all(linked.map(async attachment => ({ attachment, data: new Uint8Array(await attachment.blob.arrayBuffer()) })));
+            downloadBlob(buildExport(format, selected, rates, { from, to }, files), `herwinner_${from}_${to}.${extension}`);
+            onClose();
+        } catch (e) {
+            console.error(e);
+            setError('Az export nem sikerült.');
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="modal-overlay fade-in" onClick={onClose}>
+            <div className="modal-content glass-panel" onClick={e => e.stopPropagation()}>
+                <header className="modal-header">
+                    <h3>Export</h3>
+                    <button className="icon-btn" onClick={onClose}><Icon name="close" /></button>
+                </header>
+
+                <div className="modal-body">
+                    <div className="input-group">
+                        <label>Formátum</label>
+                        <select value={format} onChange={e => setFormat(e.target.value as ExportFormat)}>
+                            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(f => <option key={f} value={f}>{EXPORT_FORMATS[f].label}</option>)}
+                        </select>
+                    </div>
+                    <div className="input-row">
+                        <div className="input-group">
+                            <label>Kezdete</label>
+                            <input type="date" value={from} onChange={e => setFrom(e.target.value)} />
+                        </div>
+                        <div className="input-group">
+                            <label>Vége</label>
+                            <input type="date" value={to} onChange={e => setTo(e.target.value)} />
+                        </div>
+                    </div>
+                    <small className="input-hint">{selected.length} tétel kerül exportálásra (a napló aktuális szűrése szerint).</small>
+                    {format === 'bundle' && <small className="input-hint">{linked.length} csatolmány ({formatBytes(attachmentUsage(linked))}) kerül a mentésbe.</small>}
+                    {withoutRate.length > 0 && (
+                        <small className="warning-text">
+                            {withoutRate.length} tétel kimarad, mert nincs árfolyam ehhez: {[...new Set(withoutRate.map(r => r.currency))].join(', ')}. Az árfolyamot a Pénz nézetben adhatod meg.
+                        </small>
+                    )}
+                    {error && <p className="danger-text" style={{ fontSize: '12px' }}>{error}</p>}
+                </div>
+
+                <footer className="modal-footer">
+                    <button className="save-btn" onClick={runExport} disabled={selected.length === 0 || busy}>{busy ? 'Készül...' : 'Letöltés'}</button>
+                </footer>
+            </div>
         </div>
     );
 };
 
 // --- LEDGER / NOTES VIEW ---
-const NotesView = ({ records, onAddRecord, onUpdateRecord, onDeleteRecord, isOnline }: { 
+const NotesView = ({ records, recurringRules, rates, categories, attachments, query, onQueryChange, categoryRules, categorize, importProfiles, savedFilters, onSaveImportProfile, onImportRecords, onSaveFilter, onDeleteFilter, onSaveCategory, onRenameCategory, onMergeCategory, onSaveCategoryRule, onDeleteCategoryRule, onAddRecord, onUpdateRecord, onUpdateSeries, onDeleteRecord, onSaveRule, onDeleteRule, onSaveAttachment, onDeleteAttachment, isOnline }: { 
     records: FinancialRecord[], 
+    recurringRules: RecurringRule[],
+    rates: ExchangeRate[],
+    categories: Category[],
+    attachments: Attachment[],
+    query: string,
+    onQueryChange: (query: string) => void,
+    categoryRules: CategoryRule[],
+    categorize: Categorizer,
+    importProfiles: ImportProfile[],
+    savedFilters: SavedFilter[],
+    onSaveImportProfile: (p: ImportProfile) => void,
+    onImportRecords: (records: FinancialRecord[]) => void,
+    onSaveFilter: (f: SavedFilter) => void,
+    onDeleteFilter: (id: string) => void,
+    onSaveCategory: (c: Category) => void,
+    onRenameCategory: (id: string, name: string) => void,
+    onMergeCategory: (sourceId: string, targetId: string) => void,
+    onSaveCategoryRule: (r: CategoryRule) => void,
+    onDeleteCategoryRule: (id: string) => void,
     onAddRecord: (r: FinancialRecord) => void,
     onUpdateRecord: (r: FinancialRecord) => void,
+    onUpdateSeries: (r: FinancialRecord) => void,
     onDeleteRecord: (id: string) => void,
+    onSaveRule: (r: RecurringRule) => void,
+    onDeleteRule: (id: string) => void,
+    onSaveAttachment: (a: Attachment) => void,
+    onDeleteAttachment: (id: string) => void,
     isOnline: boolean
 }) => {
-    const [search, setSearch] = useState('');
+    const setQuery = onQueryChange;
+    const [showFilters, setShowFilters] = useState(false);
+    const [filterName, setFilterName] = useState<string | null>(null);
+    const [sort, setSort] = useState<LedgerSort>({ key: 'date', dir: 'desc' });
     const [editingRecord, setEditingRecord] = useState<FinancialRecord | null>(null);
-    const formatCurrency = (val: number) => new Intl.NumberFormat('hu-HU', { style: 'currency', currency: 'HUF', maximumFractionDigits: 0 }).format(val);
+    const [editingRule, setEditingRule] = useState<{ rule: RecurringRule, isNew: boolean } | null>(null);
+    const [showRules, setShowRules] = useState(false);
+    const [showImport, setShowImport] = useState(false);
+    const [showExport, setShowExport] = useState(false);
+    const [showCategories, setShowCategories] = useState(false);
+    const currencies = [BASE_CURRENCY, ...rates.map(r => r.id)];
     
-    const filteredRecords = records.filter(r => 
-        r.name.toLowerCase().includes(search.toLowerCase()) || 
-        r.category.toLowerCase().includes(search.toLowerCase())
+    const filter = useMemo(() => parseLedgerQuery(query), [query]);
+    const filteredRecords = useMemo(
+        () => sortLedger(records.filter(r => matchesLedgerFilter(r, filter, rates)), sort, rates),
+        [records, filter, sort, rates]
     );
 
-    const exportToCSV = () => {
-        const headers = ["Dátum", "Név", "Összeg", "Kategória", "Megjegyzés"];
-        const rows = records.map(r => [r.date, r.name, r.amount, r.category, r.comment]);
-        const csvContent = "data:text/csv;charset=utf-8," 
-            + headers.join(",") + "\n"
-            + rows.map(e => e.join(",")).join("\n");
-        const encodedUri = encodeURI(csvContent);
-        const link = document.createElement("a");
-        link.setAttribute("href", encodedUri);
-        link.setAttribute("download", `herwinner_export.csv`);
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+    const updateFilter = (updates: Partial<LedgerFilter>) => setQuery(formatLedgerQuery({ ...filter, ...updates }));
+
+    const amountBound = (op: AmountOperator) => filter.amounts.find(a => a.op === op)?.value ?? '';
+    const setAmountBound = (op: AmountOperator, value: string) => updateFilter({
+        amounts: [...filter.amounts.filter(a => a.op !== op), ...(value === '' || isNaN(parseFloat(value)) ? [] : [{ op, value: parseFloat(value) }])]
+    });
+
+    // A címkemező szövegét gépelés közben nem bontjuk fel, különben a vessző és a szóköz eltűnne
+    const [tagDraft, setTagDraft] = useState<string | null>(null);
+    const commitTagDraft = () => {
+        if (tagDraft === null) return;
+        updateFilter({ tags: parseTags(tagDraft) });
+        setTagDraft(null);
+    };
+
+    const toggleCategory = (category: string) => updateFilter({
+        categories: filter.categories.includes(category) ? filter.categories.filter(c => c !== category) : [...filter.categories, category]
+    });
+
+    const saveCurrentFilter = () => {
+        if (!filterName?.trim() || !query.trim()) return;
+        onSaveFilter({ id: `filter-${Date.now()}`, name: filterName.trim(), query: query.trim() });
+        setFilterName(null);
     };
 
+    const sortBy = (key: LedgerSortKey) => setSort(prev => prev.key === key
+        ? { key, dir: prev.dir === 'asc' ? 'desc' : 'asc' }
+        : { key, dir: key === 'date' || key === 'amount' ? 'desc' : 'asc' });
+
+    const sortHeader = (key: LedgerSortKey, label = SORT_LABELS[key]) => (
+        <span className={`sort-header ${sort.key === key ? 'active' : ''}`} onClick={() => sortBy(key)}>
+            {label}
+            {sort.key === key && <Icon name={sort.dir === 'asc' ? 'arrow_upward' : 'arrow_downward'} style={{ fontSize: '10px' }} />}
+        </span>
+    );
+
     return (
         <div className="view-container">
             <header className="view-header">
@@ -365,34 +3713,184 @@ const NotesView = ({ records, onAddRecord, onUpdateRecord, onDeleteRecord, isOnl
                     {!isOnline && <span style={{ fontSize: '10px', color: 'var(--secondary)' }}>Offline szerkesztés mód</span>}
                 </div>
                 <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
-                    <button className="icon-btn-mini" onClick={exportToCSV} title="CSV Export">
+                    <button className="icon-btn-mini" onClick={() => setShowRules(!showRules)} title="Ismétlődő tételek">
+                        <Icon name="event_repeat" style={{ color: showRules ? 'var(--primary)' : 'inherit' }} />
+                    </button>
+                    <button className="icon-btn-mini" onClick={() => setShowCategories(true)} title="Kategóriák">
+                        <Icon name="category" />
+                    </button>
+                    <button className="icon-btn-mini" onClick={() => setShowImport(true)} title="Kivonat import">
+                        <Icon name="upload_file" />
+                    </button>
+                    <button className="icon-btn-mini" onClick={() => setShowExport(true)} title="Export">
                         <Icon name="download" />
                     </button>
                 </div>
             </header>
 
-            <div className="search-bar glass-panel" style={{ marginBottom: '15px', padding: '8px 15px', display: 'flex', alignItems: 'center', gap: '10px' }}>
+            {showRules && (
+                <div className="recurring-panel glass-panel fade-in">
+                    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px' }}>
+                        <span className="section-title">Ismétlődő tételek</span>
+                        <button className="icon-btn-mini" title="Új szabály" onClick={() => setEditingRule({
+                            isNew: true,
+                            rule: {
+                                id: `rule-${Date.now()}`,
+                                name: '',
+                                amount: 0,
+                                category: fallbackCategoryName(categories),
+                                comment: '',
+                                frequency: 'monthly',
+                                interval: 1,
+                                startDate: toIsoDate(new Date())
+                            }
+                        })}>
+                            <Icon name="add" />
+                        </button>
+                    </div>
+                    {recurringRules.length === 0 ? (
+                        <div className="empty-state">Még nincs ismétlődő tétel (pl. lakbér, fizetés, előfizetések).</div>
+                    ) : recurringRules.map(rule => {
+                        const next = nextOccurrence(rule);
+                        return (
+                            <div key={rule.id} className="recurring-row" onClick={() => setEditingRule({ rule, isNew: false })}>
+                                <div className="col-name">
+                                    <div className="r-title">{rule.name}</div>
+                                    <div className="r-comment">
+                                        {FREQUENCY_LABELS[rule.frequency]}{rule.interval > 1 ? ` (${rule.interval}×)` : ''} • {next ? `Következő: ${next}` : 'Lejárt'}
+                                    </div>
+                                </div>
+                                <div className={`col-amt ${rule.amount >= 0 ? 'success-text' : 'danger-text'}`}>
+                                    {formatCurrency(rule.amount, rule.currency)}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            <div className="search-bar glass-panel" style={{ marginBottom: '10px', padding: '8px 15px', display: 'flex', alignItems: 'center', gap: '10px' }}>
                 <Icon name="search" style={{ fontSize: '18px', color: 'var(--text-muted)' }} />
                 <input 
                     type="text" 
-                    placeholder="Keresés..." 
-                    value={search} 
-                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Keresés... (pl. cat:Étel amount<-5000 date:2026-09)" 
+                    value={query} 
+                    onChange={(e) => setQuery(e.target.value)}
                     style={{ background: 'transparent', border: 'none', color: 'white', flex: 1, outline: 'none', fontSize: '14px' }}
                 />
+                {query && (
+                    <button className="icon-btn-mini" onClick={() => setFilterName('')} title="Szűrő mentése">
+                        <Icon name="bookmark_add" />
+                    </button>
+                )}
+                <button className="icon-btn-mini" onClick={() => setShowFilters(!showFilters)} title="Szűrők">
+                    <Icon name="tune" style={{ color: showFilters ? 'var(--primary)' : 'inherit' }} />
+                </button>
             </div>
+
+            {filterName !== null && (
+                <div className="saved-filter-form fade-in">
+                    <input
+                        autoFocus
+                        placeholder="Szűrő neve"
+                        value={filterName}
+                        onChange={e => setFilterName(e.target.value)}
+                        onKeyDown={e => { if (e.key === 'Enter') saveCurrentFilter(); if (e.key === 'Escape') setFilterName(null); }}
+                    />
+                    <button className="icon-btn-mini" onClick={saveCurrentFilter} title="Mentés"><Icon name="check" /></button>
+                    <button className="icon-btn-mini" onClick={() => setFilterName(null)} title="Mégse"><Icon name="close" /></button>
+                </div>
+            )}
+
+            {savedFilters.length > 0 && (
+                <div className="saved-filters">
+                    {savedFilters.map(f => (
+                        <span key={f.id} className={`filter-chip ${f.query === query ? 'active' : ''}`} onClick={() => setQuery(f.query === query ? '' : f.query)} title={f.query}>
+                            <Icon name="bookmark" style={{ fontSize: '12px' }} />
+                            {f.name}
+                            <span className="chip-remove" title="Törlés" onClick={(e) => { e.stopPropagation(); onDeleteFilter(f.id); }}><Icon name="close" style={{ fontSize: '12px' }} /></span>
+                        </span>
+                    ))}
+                </div>
+            )}
+
+            {showFilters && (
+                <div className="filter-panel glass-panel fade-in">
+                    <div className="saved-filters">
+                        {activeCategoryNames(categories).map(c => (
+                            <span key={c} className={`filter-chip ${filter.categories.some(fc => fc.toLowerCase() === c.toLowerCase()) ? 'active' : ''}`} onClick={() => toggleCategory(c)}>{c}</span>
+                        ))}
+                    </div>
+                    <div className="input-row">
+                        <div className="input-group">
+                            <label>Dátumtól</label>
+                            <input type="date" value={filter.dateFrom || ''} onChange={e => updateFilter({ dateFrom: e.target.value || undefined })} />
+                        </div>
+                        <div className="input-group">
+                            <label>Dátumig</label>
+                            <input type="date" value={filter.dateTo || ''} onChange={e => updateFilter({ dateTo: e.target.value || undefined })} />
+                        </div>
+                    </div>
+                    <div className="input-row">
+                        <div className="input-group">
+                            <label>Összeg min. ({BASE_CURRENCY})</label>
+                            <input type="number" value={amountBound('>=')} onChange={e => setAmountBound('>=', e.target.value)} />
+                        </div>
+                        <div className="input-group">
+                            <label>Összeg max. ({BASE_CURRENCY})</label>
+                            <input type="number" value={amountBound('<=')} onChange={e => setAmountBound('<=', e.target.value)} />
+                        </div>
+                    </div>
+                    <div className="input-row">
+                        <div className="input-group">
+                            <label>Irány</label>
+                            <select value={filter.direction} onChange={e => updateFilter({ direction: e.target.value as LedgerFilter['direction'] })}>
+                                <option value="all">Mind</option>
+                                <option value="income">Bevétel</option>
+                                <option value="expense">Kiadás</option>
+                            </select>
+                        </div>
+                        <div className="input-group">
+                            <label>Szinkron állapot</label>
+                            <select value={filter.syncStatus || ''} onChange={e => updateFilter({ syncStatus: (e.target.value || undefined) as SyncStatus | undefined })}>
+                                <option value="">Mind</option>
+                                <option value="synced">Szinkronizált</option>
+                                <option value="pending">Függőben</option>
+                                <option value="conflict">Ütközés</option>
+                            </select>
+                        </div>
+                    </div>
+                    <div className="input-row">
+                        <div className="input-group">
+                            <label>Megjegyzés tartalmazza</label>
+                            <input value={filter.comment || ''} onChange={e => updateFilter({ comment: e.target.value || undefined })} />
+                        </div>
+                        <div className="input-group">
+                            <label>Címkék</label>
+                            <input
+                                value={tagDraft ?? filter.tags.join(', ')}
+                                onChange={e => setTagDraft(e.target.value)}
+                                onBlur={commitTagDraft}
+                                onKeyDown={e => e.key === 'Enter' && commitTagDraft()}
+                                placeholder="nyaralás, céges"
+                            />
+                        </div>
+                    </div>
+                    {query && <button className="cancel-btn w-full" onClick={() => setQuery('')}>Szűrők törlése</button>}
+                </div>
+            )}
             
             <div className="ledger-container glass-panel">
                 <div className="ledger-header">
-                    <div className="col-date">Dátum</div>
-                    <div className="col-name">Tétel</div>
-                    <div className="col-amt">Összeg</div>
+                    <div className="col-date">{sortHeader('date')}</div>
+                    <div className="col-name">{sortHeader('name', 'Tétel')} / {sortHeader('category')}</div>
+                    <div className="col-amt">{sortHeader('amount')}</div>
                 </div>
                 <div className="ledger-body custom-scrollbar">
                     {filteredRecords.length === 0 ? (
                         <div className="empty-state">Nincs találat.</div>
                     ) : (
-                        filteredRecords.sort((a,b) => b.date.localeCompare(a.date)).map(r => (
+                        filteredRecords.map(r => (
                             <div key={r.id} className={`ledger-row ${r.syncStatus === 'pending' ? 'pending-sync' : ''} ${r.syncStatus === 'conflict' ? 'conflict-row' : ''}`} onClick={() => setEditingRecord(r)}>
                                 <div className="col-date">
                                     {r.date.split('-').slice(1).join('.')}
@@ -402,12 +3900,32 @@ const NotesView = ({ records, onAddRecord, onUpdateRecord, onDeleteRecord, isOnl
                                 <div className="col-name">
                                     <div className="r-title">{r.name}</div>
                                     <div className="r-comment">
-                                        <span className={`cat-tag cat-${getCategorySlug(r.category)}`}>{r.category}</span>
+                                        {recordParts(r).map((part, i) => (
+                                            <CategoryTag key={i} name={part.category} categories={categories} title={r.splits ? formatCurrency(part.amount, r.currency) : undefined} />
+                                        ))}
+                                        {r.tags?.map(t => <span key={t} className="record-tag">#{t}</span>)}
+                                        {r.recurrence && (
+                                            <span className="recurring-tag" title={r.recurrence.detached ? 'Egyedileg módosított előfordulás' : 'Ismétlődő szabályból generálva'}>
+                                                <Icon name={r.recurrence.detached ? "event_busy" : "event_repeat"} style={{ fontSize: '10px' }} />
+                                                {r.recurrence.detached ? 'Módosított' : 'Automatikus'}
+                                            </span>
+                                        )}
+                                        {!!r.attachmentIds?.length && (
+                                            <span className="attachment-tag" title={`${r.attachmentIds.length} csatolmány`}>
+                                                <Icon name="attach_file" style={{ fontSize: '10px' }} />
+                                                {r.attachmentIds.length > 1 ? r.attachmentIds.length : ''}
+                                            </span>
+                                        )}
                                         {r.comment && <span> • {r.comment}</span>}
                                     </div>
                                 </div>
                                 <div className={`col-amt ${r.amount >= 0 ? 'success-text' : 'danger-text'}`}>
-                                    {r.amount > 0 ? '+' : ''}{formatCurrency(r.amount)}
+                                    {r.amount > 0 ? '+' : ''}{formatCurrency(r.amount, r.currency)}
+                                    {r.currency && r.currency !== BASE_CURRENCY && (
+                                        <div className="converted-amt">
+                                            {convertToBase(r.amount, r.currency, rates) === null ? 'nincs árfolyam' : `≈ ${formatCurrency(convertToBase(r.amount, r.currency, rates)!)}`}
+                                        </div>
+                                    )}
                                 </div>
                             </div>
                         ))
@@ -418,12 +3936,60 @@ const NotesView = ({ records, onAddRecord, onUpdateRecord, onDeleteRecord, isOnl
             {editingRecord && (
                 <EditRecordModal 
                     record={editingRecord} 
+                    currencies={currencies}
+                    categories={categories}
+                    attachments={attachments}
+                    categorize={categorize}
                     onSave={onUpdateRecord} 
+                    onSaveSeries={onUpdateSeries}
                     onDelete={onDeleteRecord} 
+                    onSaveAttachment={onSaveAttachment}
+                    onDeleteAttachment={onDeleteAttachment}
                     onClose={() => setEditingRecord(null)} 
                 />
             )}
 
+            {showExport && (
+                <ExportModal records={filteredRecords} rates={rates} attachments={attachments} onClose={() => setShowExport(false)} />
+            )}
+
+            {showCategories && (
+                <CategoryManagerModal
+                    categories={categories}
+                    records={records}
+                    rules={categoryRules}
+                    onSave={onSaveCategory}
+                    onRename={onRenameCategory}
+                    onMerge={onMergeCategory}
+                    onSaveRule={onSaveCategoryRule}
+                    onDeleteRule={onDeleteCategoryRule}
+                    onClose={() => setShowCategories(false)}
+                />
+            )}
+
+            {showImport && (
+                <ImportWizard
+                    records={records}
+                    categories={categories}
+                    categorize={categorize}
+                    profiles={importProfiles}
+                    onSaveProfile={onSaveImportProfile}
+                    onImport={onImportRecords}
+                    onClose={() => setShowImport(false)}
+                />
+            )}
+
+            {editingRule && (
+                <RecurringRuleModal
+                    rule={editingRule.rule}
+                    currencies={currencies}
+                    categories={categories}
+                    onSave={onSaveRule}
+                    onDelete={editingRule.isNew ? undefined : onDeleteRule}
+                    onClose={() => setEditingRule(null)}
+                />
+            )}
+
             <div className="ledger-actions" style={{ marginTop: '20px' }}>
                 <button className="ai-analysis-btn w-full" onClick={() => onAddRecord({
                     id: Date.now().toString(),
@@ -431,7 +3997,7 @@ const NotesView = ({ records, onAddRecord, onUpdateRecord, onDeleteRecord, isOnl
                     amount: 0,
                     date: new Date().toISOString().split('T')[0],
                     comment: '',
-                    category: 'Egyéb',
+                    category: fallbackCategoryName(categories),
                     syncStatus: isOnline ? 'synced' : 'pending',
                     lastModified: Date.now()
                 })}>
@@ -443,35 +4009,161 @@ const NotesView = ({ records, onAddRecord, onUpdateRecord, onDeleteRecord, isOnl
 };
 
 // --- AI ASSISTANT VIEW ---
-const AiAssistantView = ({ onAddRecord, isOnline }: { onAddRecord: (r: FinancialRecord) => void, isOnline: boolean }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>([{ id: '0', role: 'model', text: 'Szia! HeR vagyok. Miben segíthetek?' }]);
+const VOICE_STATE_LABELS: Record<VoiceState, string> = {
+    idle: 'Élő hang indítása',
+    connecting: 'Kapcsolódás...',
+    listening: 'Figyelek',
+    speaking: 'HeR beszél – szólj közbe bármikor',
+    error: 'A hangkapcsolat hibára futott – koppints az újraindításhoz'
+};
+
+const VOICE_STATE_ICONS: Record<VoiceState, string> = {
+    idle: 'mic_off',
+    connecting: 'sync',
+    listening: 'mic',
+    speaking: 'graphic_eq',
+    error: 'error'
+};
+
+const PENDING_ACTION_LABELS: Record<PendingAction, string> = {
+    add: 'Jóváhagyás',
+    update: 'Módosítás',
+    delete: 'Törlés',
+    budget: 'Költségkeret'
+};
+
+const PENDING_ACTION_ICONS: Record<PendingAction, string> = {
+    add: 'receipt_long',
+    update: 'edit_note',
+    delete: 'delete',
+    budget: 'savings'
+};
+
+// Előtte/utána összevetés a jóváhagyó kártyán; törlésnél csak az eredeti értékek látszanak áthúzva
+const PendingChangeDiff = ({ tx, categories }: { tx: PendingTransaction, categories: Category[] }) => {
+    const before = tx.action === 'budget' ? tx.previousBudget : tx.target;
+    const rows: { label: string; before?: React.ReactNode; after?: React.ReactNode; changed: boolean }[] = tx.action === 'budget'
+        ? [
+            { label: 'Kategória', after: tx.name, changed: false },
+            { label: 'Érvényesség', after: tx.budget!.month ? formatMonth(tx.budget!.month) : 'Minden hónap', changed: false },
+            { label: 'Keret', before: tx.previousBudget ? formatCurrency(tx.previousBudget.amount) : undefined, after: formatCurrency(tx.amount), changed: tx.previousBudget?.amount !== tx.amount },
+            { label: 'Figyelmeztetés', before: tx.previousBudget ? `${tx.previousBudget.warnAt}%` : undefined, after: `${tx.budget!.warnAt}%`, changed: tx.previousBudget?.warnAt !== tx.budget!.warnAt }
+        ]
+        : [
+            { label: 'Név', before: tx.target!.name, after: tx.name, changed: tx.target!.name !== tx.name },
+            { label: 'Dátum', before: tx.target!.date, after: tx.date, changed: tx.target!.date !== tx.date },
+            { label: 'Összeg', before: formatCurrency(tx.target!.amount, tx.target!.currency), after: formatCurrency(tx.amount, tx.target!.currency), changed: tx.target!.amount !== tx.amount },
+            { label: 'Kategória', before: <CategoryTag name={tx.target!.category} categories={categories} />, after: <CategoryTag name={tx.category} categories={categories} />, changed: tx.target!.category !== tx.category },
+            { label: 'Megjegyzés', before: tx.target!.comment || '–', after: tx.comment || '–', changed: (tx.target!.comment || '') !== (tx.comment || '') }
+        ];
+
+    return (
+        <div className={`tx-diff ${tx.action === 'delete' ? 'removed' : ''}`}>
+            {rows.map(row => (
+                <div key={row.label} className={`diff-row ${row.changed ? 'changed' : ''}`}>
+                    <span className="diff-label">{row.label}</span>
+                    {tx.action === 'delete' ? (
+                        <span className="diff-before">{row.before}</span>
+                    ) : row.changed ? (
+                        <span className="diff-values">
+                            {before && row.before !== undefined && <span className="diff-before">{row.before}</span>}
+                            {before && row.before !== undefined && <Icon name="arrow_forward" style={{ fontSize: '12px' }} />}
+                            <span className="diff-after">{row.after}</span>
+                        </span>
+                    ) : (
+                        <span>{row.after}</span>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+const AiAssistantView = ({ threadId, threads, records, rates, budgets, categories, attachments, categorize, onAddRecord, onUpdateRecord, onDeleteRecord, onSaveBudget, onSaveAttachment, onDeleteAttachment, onSaveThread, onDeleteThread, onSelectThread, isOnline, outbox }: {
+    threadId: string,
+    threads: ChatThread[],
+    records: FinancialRecord[],
+    rates: ExchangeRate[],
+    budgets: Budget[],
+    categories: Category[],
+    attachments: Attachment[],
+    categorize: Categorizer,
+    onAddRecord: (r: FinancialRecord) => void,
+    onUpdateRecord: (r: FinancialRecord) => void,
+    onDeleteRecord: (id: string) => void,
+    onSaveBudget: (b: Budget) => void,
+    onSaveAttachment: (a: Attachment) => void,
+    onDeleteAttachment: (id: string) => void,
+    onSaveThread: (t: ChatThread) => void,
+    onDeleteThread: (id: string) => void,
+    // null: új beszélgetés indítása
+    onSelectThread: (id: string | null) => void,
+    isOnline: boolean,
+    outbox: OutboxControls
+}) => {
+  // A nézet szálanként újra felépül (App-ben key), ezért a tárolt szál csak induláskor töltődik be
+  const [savedThread] = useState(() => threads.find(t => t.id === threadId));
+  const [messages, setMessages] = useState<ChatMessage[]>(() => savedThread?.messages ?? [WELCOME_MESSAGE]);
   const [inputText, setInputText] = useState('');
-  const [isLive, setIsLive] = useState(false);
+  const [showThreads, setShowThreads] = useState(false);
+  const [threadQuery, setThreadQuery] = useState('');
+  const threadResults = showThreads ? searchChatThreads(threads, threadQuery) : [];
+  const [voiceState, setVoiceState] = useState<VoiceState>('idle');
   const [isLoading, setIsLoading] = useState(false);
   const [showVoiceSettings, setShowVoiceSettings] = useState(false);
   const [selectedVoice, setSelectedVoice] = useState<VoiceName>('Zephyr');
   const [voiceSpeed, setVoiceSpeed] = useState(1.0);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const receiptInputRef = useRef<HTMLInputElement>(null);
+  // Az élő hangmunkamenet és a jóváhagyó kártyák visszahívásai a létrehozáskori állapotot látnák, ezért a friss adatokat refen keresztül érik el
+  const latestRef = useRef({ records, rates, budgets, categories, isOnline });
+  latestRef.current = { records, rates, budgets, categories, isOnline };
+  // A modellnek küldött beszélgetés-előzmény, és a modell utolsó körének jóváhagyásra váró írási hívásai
+  const historyRef = useRef<Content[]>(savedThread?.history ?? []);
+  const awaitingCallsRef = useRef<AwaitingChatCall[]>(savedThread?.awaiting ?? []);
+  const restoredMessagesRef = useRef(messages);
   const outCtxRef = useRef<AudioContext | null>(null);
-  const nextStartTimeRef = useRef(0);
+  const voiceSessionRef = useRef<VoiceSession | null>(null);
+  // A hangkörök átiratai szerepenként egy-egy nyitott buborékba gyűlnek
+  const voiceTurnRef = useRef<Partial<Record<'user' | 'model', { id: string; text: string }>>>({});
+  // Amíg a modell hívásai válaszra várnak, a lezárt hangkörök itt várakoznak, hogy ne kerüljenek a hívás és a válasza közé
+  const heldVoiceTurnsRef = useRef<Content[]>([]);
 
-  useEffect(() => messagesEndRef.current?.scrollIntoView({ behavior: "smooth" }), [messages]);
+  useEffect(() => messagesEndRef.current?.scrollIntoView({ behavior: "smooth" }), [messages, outbox.items]);
 
-  const addRecordTool: FunctionDeclaration = {
-    name: 'add_financial_record',
-    parameters: {
-      type: Type.OBJECT,
-      description: 'Pénzügyi tétel rögzítése.',
-      properties: {
-        name: { type: Type.STRING },
-        amount: { type: Type.NUMBER },
-        category: { type: Type.STRING },
-        comment: { type: Type.STRING },
-      },
-      required: ['name', 'amount']
+  // Minden lezárt változás mentődik; a betöltött állapotot, a még gyűlő hangátiratot és az üres szálat nem írjuk vissza
+  useEffect(() => {
+    if (messages === restoredMessagesRef.current || messages.some(m => m.partial)) return;
+    if (!messages.some(m => m.role === 'user' || m.pendingTx || m.resolvedTx)) return;
+    const now = Date.now();
+    onSaveThread({
+      id: threadId,
+      title: threadTitle(messages),
+      messages: messages.map(persistableMessage),
+      history: historyRef.current,
+      awaiting: awaitingCallsRef.current,
+      createdAt: savedThread?.createdAt ?? now,
+      updatedAt: now
+    });
+  }, [messages]);
+
+  // Nézetváltáskor, illetve a kapcsolat elvesztésekor a mikrofon és a munkamenet is lezárul
+  useEffect(() => () => voiceSessionRef.current?.stop(), []);
+  useEffect(() => {
+    if (!isOnline) stopLive();
+  }, [isOnline]);
+
+  // Visszajátszott offline üzenetek: a nyitott szálét itt vesszük át, hogy a helyi állapot és a hangkimenet is lássa;
+  // a többi szál válaszát az App menti a saját szálába
+  const ownOutboxItems = outbox.items.filter(i => i.kind !== 'chat' || (i.threadId ?? threadId) === threadId);
+  useEffect(() => {
+    for (const item of ownOutboxItems.filter(i => i.kind === 'chat' && i.status === 'done')) {
+      setMessages(prev => [...prev, { id: `${item.id}-prompt`, role: 'user', text: item.payload }]);
+      handleChatReply(item.result as ChatReply);
+      outbox.remove(item.id);
     }
-  };
+  }, [outbox.items]);
 
   const speakText = async (text: string, voiceOverride?: VoiceName) => {
     if (!isOnline) return;
@@ -503,29 +4195,135 @@ const AiAssistantView = ({ onAddRecord, isOnline }: { onAddRecord: (r: Financial
     } catch (e) { console.error(e); }
   };
 
-  const handleConfirmation = (tx: PendingTransaction, confirmed: boolean) => {
-    if (confirmed) {
+  // A resolverFor adja meg, hová kerül a hívás eredménye (chat kör vagy élő munkamenet); a nem található tételről azonnal szól
+  const addPendingCalls = <C extends { id?: string; name?: string; args?: any }>(calls: C[], source: string, resolverFor: (fc: C) => ((response: Record<string, unknown>) => void) | undefined, chatCallKeyFor?: (fc: C) => string | undefined) => {
+    for (const fc of calls) {
+      const resolver = resolverFor(fc);
+      const pendingTx = pendingFromCall(fc, source, latestRef.current);
+      if (!pendingTx) resolver?.({ status: 'error', message: 'A megadott azonosítóval nincs tétel.' });
+      setMessages(prev => [...prev, pendingTx
+        ? { id: pendingTx.id, role: 'system', text: 'Megerősítés...', pendingTx: { ...pendingTx, sessionResolver: resolver, chatCallKey: chatCallKeyFor?.(fc) } }
+        : { id: `${Date.now()}-${fc.name}`, role: 'system', text: `✗ A kért tétel nem található (${fc.name}).` }]);
+    }
+  };
+
+  // A kártya a létrehozáskori pillanatképet őrzi; jóváhagyáskor a napló aktuális, nem törölt tételén dolgozunk
+  const liveTarget = (tx: PendingTransaction) =>
+    latestRef.current.records.find(r => r.id === tx.target?.id && r.syncStatus !== 'tombstone');
+
+  // A jóváhagyott módosítás ugyanazon az úton megy, mint a naplóban szerkesztett tétel, így szinkronizálódik.
+  // null, ha a módosítandó vagy törlendő tétel időközben megszűnt.
+  const applyPendingTx = (tx: PendingTransaction): string | null => {
+    switch (tx.action ?? 'add') {
+      case 'add':
         onAddRecord({
             id: Date.now().toString(),
             name: tx.name,
             amount: tx.amount,
-            date: new Date().toISOString().split('T')[0],
+            date: tx.date || new Date().toISOString().split('T')[0],
             comment: tx.comment,
             category: tx.category,
+            currency: tx.currency,
+            attachmentIds: tx.attachmentIds,
             syncStatus: isOnline ? 'synced' : 'pending',
             lastModified: Date.now()
         });
+        return `✓ Rögzítve: ${tx.name}`;
+      case 'update': {
+        const current = liveTarget(tx);
+        if (!current) return null;
+        const target = tx.target!;
+        // Csak a kártyán javasolt, a pillanatképtől eltérő mezők íródnak át, így a közben végzett szerkesztések megmaradnak
+        const next: FinancialRecord = { ...current };
+        if (tx.name !== target.name) next.name = tx.name;
+        if (tx.amount !== target.amount) next.amount = tx.amount;
+        if (tx.category !== target.category) next.category = tx.category;
+        if (tx.comment !== target.comment) next.comment = tx.comment;
+        if (tx.date && tx.date !== target.date) next.date = tx.date;
+        // Ha az összeg vagy a kategória változik, a korábbi felosztás már nem érvényes
+        const keepSplits = next.amount === current.amount && next.category === current.category;
+        onUpdateRecord({ ...next, splits: keepSplits ? current.splits : undefined });
+        return `✓ Módosítva: ${next.name}`;
+      }
+      case 'delete':
+        if (!liveTarget(tx)) return null;
+        onDeleteRecord(tx.target!.id);
+        return `✓ Törölve: ${tx.name}`;
+      case 'budget':
+        onSaveBudget({ ...tx.budget!, amount: Math.abs(tx.amount) });
+        return `✓ Keret beállítva: ${tx.name}`;
+    }
+  };
+
+  const handleConfirmation = (tx: PendingTransaction, confirmed: boolean) => {
+    // Újratöltés után a visszahívás már nincs meg, de a szöveges beszélgetés függő hívása a kulcsával feloldható
+    const resolve = tx.sessionResolver ?? (tx.chatCallKey ? (response: Record<string, unknown>) => resolveChatCall(tx.chatCallKey!, response) : undefined);
+    if (confirmed) {
+        const text = applyPendingTx(tx);
+        if (text === null) {
+            setMessages(prev => prev.map(m => m.pendingTx?.id === tx.id ? { ...m, pendingTx: undefined, text: `✗ A tétel időközben törlődött: ${tx.name}` } : m));
+            resolve?.({ status: 'error', message: 'A tétel időközben törlődött, a művelet nem hajtható végre.' });
+            return;
+        }
+        const { sessionResolver, ...resolvedTx } = tx;
         setMessages(prev => prev.map(m => m.pendingTx?.id === tx.id ? { 
             ...m, 
             pendingTx: undefined, 
-            resolvedTx: { ...tx },
-            text: `✓ Rögzítve: ${tx.name}` 
+            resolvedTx,
+            text
         } : m));
         speakText("Sikeresen mentettem.");
+        resolve?.({ status: 'confirmed', result: text, values: { name: tx.name, amount: tx.amount, category: tx.category, comment: tx.comment, date: tx.date } });
     } else {
         setMessages(prev => prev.map(m => m.pendingTx?.id === tx.id ? { ...m, pendingTx: undefined, text: `✗ Elvetve: ${tx.name}` } : m));
         speakText("Megszakítva.");
+        tx.attachmentIds?.forEach(onDeleteAttachment);
+        resolve?.({ status: 'rejected', message: 'A felhasználó elvetette.' });
+    }
+  };
+
+  // A nyugta képe csatolmányként azonnal mentődik, a kiolvasott adatokból jóváhagyó kártya lesz; elvetéskor a csatolmány is törlődik
+  const captureReceipt = async (file: File) => {
+    if (!isOnline || isLoading) return;
+    setMessages(prev => [...prev, { id: Date.now().toString(), role: 'user', text: `📎 ${file.name}` }]);
+    let attachment: Attachment;
+    try {
+      attachment = await createAttachment(file, attachments);
+    } catch (e) {
+      setMessages(prev => [...prev, { id: Date.now().toString(), role: 'system', text: `✗ ${e instanceof Error ? e.message : 'A fájl nem csatolható.'}` }]);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const receipt = await runReceiptExtraction({ data: encode(new Uint8Array(await file.arrayBuffer())), mimeType: file.type }, activeCategoryNames(categories));
+      onSaveAttachment(attachment);
+      const currency = receipt.currency?.toUpperCase();
+      const name = receipt.merchant || file.name;
+      // A nyugta mindig kiadás, az előjeltől és a hiányzó végösszegtől függetlenül
+      const amount = -Math.abs(receipt.total || 0);
+      const txId = Date.now().toString();
+      setMessages(prev => [...prev, {
+          id: txId,
+          role: 'system',
+          text: 'Nyugta feldolgozva...',
+          pendingTx: {
+              id: txId,
+              toolCallId: `receipt-${txId}`,
+              action: 'add',
+              name,
+              amount,
+              category: receipt.category ? resolveCategoryName(categories, receipt.category) : categorize({ name, amount })?.category ?? fallbackCategoryName(categories),
+              comment: receiptComment(receipt),
+              date: /^\d{4}-\d{2}-\d{2}$/.test(receipt.date || '') ? receipt.date : undefined,
+              currency: currency && isCurrencyCode(currency) && currency !== BASE_CURRENCY ? currency : undefined,
+              attachmentIds: [attachment.id]
+          }
+      }]);
+    } catch (e) {
+      console.error(e);
+      setMessages(prev => [...prev, { id: Date.now().toString(), role: 'system', text: '✗ Nem sikerült kiolvasni a nyugtát.' }]);
     }
+    setIsLoading(false);
   };
 
   const triggerDirectRecord = (initialData: Partial<PendingTransaction> = {}) => {
@@ -539,7 +4337,7 @@ const AiAssistantView = ({ onAddRecord, isOnline }: { onAddRecord: (r: Financial
               toolCallId: `manual-${txId}`, 
               name: initialData.name || 'Új tétel', 
               amount: initialData.amount || 0, 
-              category: initialData.category || 'Egyéb', 
+              category: initialData.category || fallbackCategoryName(categories), 
               comment: initialData.comment || 'Direkt rögzítés',
               isEditing: !initialData.name // Open editor if blank
           }
@@ -550,116 +4348,146 @@ const AiAssistantView = ({ onAddRecord, isOnline }: { onAddRecord: (r: Financial
       setMessages(prev => prev.map(m => m.pendingTx?.id === id ? { ...m, pendingTx: { ...m.pendingTx!, ...updates } } : m));
   };
 
-  const toggleLive = async () => {
-    if (!isOnline) return;
-    if (isLive) {
-      setIsLive(false);
+  // A lezárt hangkör végleges szövege a modellnek küldött előzménybe is bekerül, így a szöveges folytatás is látja
+  const finishVoiceTurn = (role: 'user' | 'model') => {
+    const turn = voiceTurnRef.current[role];
+    if (!turn) return;
+    voiceTurnRef.current[role] = undefined;
+    const text = turn.text.trim();
+    setMessages(prev => text ? prev.map(m => m.id === turn.id ? { ...m, text, partial: false } : m) : prev.filter(m => m.id !== turn.id));
+    if (!text) return;
+    heldVoiceTurnsRef.current = [...heldVoiceTurnsRef.current, { role, parts: [{ text }] }];
+    if (awaitingCallsRef.current.length === 0) flushVoiceTurns();
+  };
+
+  const flushVoiceTurns = () => {
+    if (heldVoiceTurnsRef.current.length === 0) return;
+    historyRef.current = compactChatHistory([...historyRef.current, ...heldVoiceTurnsRef.current]);
+    heldVoiceTurnsRef.current = [];
+  };
+
+  const appendTranscript = (role: 'user' | 'model', text: string) => {
+    // A másik fél megszólalása lezárja az előző buborékot
+    finishVoiceTurn(role === 'user' ? 'model' : 'user');
+    const turn = voiceTurnRef.current[role];
+    if (turn) {
+      turn.text += text;
+      setMessages(prev => prev.map(m => m.id === turn.id ? { ...m, text: turn.text } : m));
       return;
     }
-    
-    setIsLive(true);
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const inCtx = new AudioContext({sampleRate: 16000});
-    const outCtx = outCtxRef.current || new AudioContext({sampleRate: 24000});
-    outCtxRef.current = outCtx;
+    const id = `voice-${role}-${Date.now()}`;
+    voiceTurnRef.current[role] = { id, text };
+    setMessages(prev => [...prev, { id, role, text, voice: true, partial: true }]);
+  };
 
-    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-    
-    const sessionPromise = ai.live.connect({
-      model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-      callbacks: {
-        onopen: () => {
-          const source = inCtx.createMediaStreamSource(stream);
-          const scriptProcessor = inCtx.createScriptProcessor(4096, 1, 1);
-          scriptProcessor.onaudioprocess = (e) => {
-            const inputData = e.inputBuffer.getChannelData(0);
-            const int16 = new Int16Array(inputData.length);
-            for (let i = 0; i < inputData.length; i++) int16[i] = inputData[i] * 32768;
-            sessionPromise.then(s => {
-                s.sendRealtimeInput({ media: { data: encode(new Uint8Array(int16.buffer)), mimeType: 'audio/pcm;rate=16000' } });
-            });
-          };
-          source.connect(scriptProcessor);
-          scriptProcessor.connect(inCtx.destination);
-        },
-        onmessage: async (msg: LiveServerMessage) => {
-          if (msg.toolCall) {
-            for (const fc of msg.toolCall.functionCalls) {
-              if (fc.name === 'add_financial_record') {
-                const args = fc.args as any;
-                const txId = Date.now().toString();
-                speakText("Rögzítsem?");
-                setMessages(prev => [...prev, {
-                    id: txId, role: 'system', text: 'Megerősítés...',
-                    pendingTx: { id: txId, toolCallId: fc.id, name: args.name, amount: args.amount, category: args.category || 'Egyéb', comment: args.comment || 'Voice' }
-                }]);
-              }
-            }
-          }
+  const finishVoiceTurns = () => {
+    finishVoiceTurn('user');
+    finishVoiceTurn('model');
+  };
 
-          const base64 = msg.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-          if (base64) {
-            nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outCtx.currentTime);
-            const buffer = await decodeAudioData(decode(base64), outCtx, 24000, 1);
-            const source = outCtx.createBufferSource();
-            source.buffer = buffer;
-            source.connect(outCtx.destination);
-            source.playbackRate.value = voiceSpeed;
-            source.start(nextStartTimeRef.current);
-            nextStartTimeRef.current += (buffer.duration / voiceSpeed);
-          }
-        },
-        onclose: () => setIsLive(false),
-        onerror: () => setIsLive(false)
+  const stopLive = () => {
+    voiceSessionRef.current?.stop();
+    voiceSessionRef.current = null;
+  };
+
+  const toggleLive = async () => {
+    if (voiceSessionRef.current) {
+      stopLive();
+      return;
+    }
+    if (!isOnline) return;
+
+    const session = createVoiceSession({
+      voiceName: selectedVoice,
+      playbackRate: voiceSpeed,
+      systemInstruction: `Pénzügyi asszisztens vagy. Segíts kiadásokat és bevételeket kezelni. ${ledgerToolInstruction(false)}`,
+      tools: [...buildRecordTools(activeCategoryNames(categories)), ...LEDGER_QUERY_TOOLS],
+      onStateChange: state => {
+        setVoiceState(state);
+        if (state === 'idle' || state === 'error') finishVoiceTurns();
+        if (state === 'error' && voiceSessionRef.current === session) voiceSessionRef.current = null;
       },
-      config: { 
-        responseModalities: [Modality.AUDIO],
-        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: selectedVoice } } },
-        systemInstruction: 'Pénzügyi asszisztens vagy. Segíts kiadásokat és bevételeket kezelni.',
-        tools: [{ functionDeclarations: [addRecordTool] }]
-      }
+      onToolCall: (calls, reply) => {
+        const reads = calls.filter(fc => isLedgerQueryTool(fc.name));
+        if (reads.length > 0) {
+          const { records, rates } = latestRef.current;
+          reply(reads.map(fc => ({ id: fc.id, name: fc.name, response: runLedgerTool(fc, { records, rates }, new Map()) })));
+        }
+        const writes = calls.filter(fc => !isLedgerQueryTool(fc.name));
+        if (writes.length > 0) {
+          speakText("Jóváhagyod?");
+          addPendingCalls(writes, 'Voice', fc => response => reply([{ id: fc.id, name: fc.name, response }]));
+        }
+      },
+      onTranscript: appendTranscript,
+      onTurnEnd: finishVoiceTurns,
+      onError: message => setMessages(prev => [...prev, { id: Date.now().toString(), role: 'system', text: `✗ ${message}` }])
     });
+    voiceSessionRef.current = session;
+    await session.start();
   };
 
-  const sendMessage = async (text: string) => {
-    if (!text.trim() || isLoading || !isOnline) return;
-    setMessages(prev => [...prev, { id: Date.now().toString(), role: 'user', text }]);
-    setInputText('');
+  const handleChatReply = (reply: ChatReply) => {
+      historyRef.current = compactChatHistory([...historyRef.current, ...(reply.turns || [])]);
+      const awaiting = reply.functionCalls.filter(fc => fc.awaitsResponse);
+      const calls = awaiting.map((fc, i) => ({ key: `${fc.id || fc.name}-${Date.now()}-${i}`, id: fc.id, name: fc.name! }));
+      awaitingCallsRef.current = calls;
+      if (calls.length === 0) flushVoiceTurns();
+      if (reply.text) {
+          setMessages(prev => [...prev, { id: Date.now().toString(), role: 'model', text: reply.text, grounding: reply.grounding }]);
+      }
+      if (reply.functionCalls.length > 0) {
+          speakText("Biztosan jóváhagyod?");
+          addPendingCalls(reply.functionCalls, 'Chat', fc => {
+              const call = calls[awaiting.indexOf(fc)];
+              return call && (response => resolveChatCall(call.key, response));
+          }, fc => calls[awaiting.indexOf(fc)]?.key);
+      } else if (reply.text) {
+          speakText(reply.text);
+      }
+  };
+
+  // Ha a modell utolsó körének minden írási hívása eldőlt, az eredményeket visszaküldjük, és a modell folytatja
+  const resolveChatCall = (key: string, response: Record<string, unknown>) => {
+      if (!awaitingCallsRef.current.some(c => c.key === key)) return;
+      awaitingCallsRef.current = awaitingCallsRef.current.map(c => c.key === key ? { ...c, response } : c);
+      if (awaitingCallsRef.current.every(c => c.response) && latestRef.current.isOnline) sendChatTurn();
+  };
+
+  // A modell utolsó körének hívásaira adott válaszok; a még el nem döntött hívások kihagyottként mennek vissza
+  const takeAwaitingResponses = () => {
+    const responses = awaitingCallsRef.current.map(c => ({ id: c.id, name: c.name, response: c.response ?? { status: 'skipped', message: 'A felhasználó nem döntött, új üzenetet írt.' } }));
+    awaitingCallsRef.current = [];
+    return responses;
+  };
+
+  // Egy kör elküldése az előzménnyel együtt
+  const sendChatTurn = async (text?: string) => {
+    const awaiting = awaitingCallsRef.current;
+    if (!text && awaiting.length === 0) return;
+    const responses = takeAwaitingResponses();
     setIsLoading(true);
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateContent({ 
-          model: 'gemini-3-pro-preview', 
-          contents: text,
-          config: {
-              tools: [{ functionDeclarations: [addRecordTool] }, { googleSearch: {} }]
-          }
-      });
-
-      const toolCalls = response.candidates?.[0]?.content?.parts.filter(p => p.functionCall);
-      const grounding = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-
-      if (toolCalls && toolCalls.length > 0) {
-          for (const part of toolCalls) {
-              const fc = part.functionCall!;
-              const args = fc.args as any;
-              const txId = Date.now().toString();
-              speakText("Biztosan rögzíthetem?");
-              setMessages(prev => [...prev, {
-                id: txId, role: 'system', text: 'Megerősítés...',
-                pendingTx: { id: txId, toolCallId: fc.id, name: args.name, amount: args.amount, category: args.category || 'Egyéb', comment: args.comment || 'Chat' }
-              }]);
-          }
-      } else {
-          const resText = response.text || '';
-          setMessages(prev => [...prev, { id: Date.now().toString(), role: 'model', text: resText, grounding }]);
-          speakText(resText);
-      }
-    } catch (e) { console.error(e); }
+      const { records, rates, categories } = latestRef.current;
+      handleChatReply(await runChatPrompt(historyRef.current, userTurn(text, responses), activeCategoryNames(categories), { records, rates }));
+    } catch (e) {
+      console.error(e);
+      awaitingCallsRef.current = awaiting;
+    }
     setIsLoading(false);
   };
 
-  const formatCurrency = (val: number) => new Intl.NumberFormat('hu-HU', { style: 'currency', currency: 'HUF', maximumFractionDigits: 0 }).format(val);
+  const sendMessage = async (text: string) => {
+    if (!text.trim() || isLoading) return;
+    setInputText('');
+    if (!isOnline) {
+      // A visszajátszott kérdés ugyanazt az előzményt kapja, mint online elküldve
+      outbox.enqueue('chat', text, { threadId, history: historyRef.current, functionResponses: takeAwaitingResponses() });
+      return;
+    }
+    setMessages(prev => [...prev, { id: Date.now().toString(), role: 'user', text }]);
+    await sendChatTurn(text);
+  };
 
   return (
     <div className="view-container chat-view">
@@ -669,15 +4497,58 @@ const AiAssistantView = ({ onAddRecord, isOnline }: { onAddRecord: (r: Financial
           <button className="icon-btn" onClick={() => triggerDirectRecord()} title="Manuális rögzítés">
             <Icon name="add_circle" style={{ color: 'var(--secondary)' }} />
           </button>
+          <button className="icon-btn" onClick={() => setShowThreads(!showThreads)} title="Beszélgetések">
+            <Icon name="forum" style={{ color: showThreads ? 'var(--primary)' : 'inherit' }} />
+          </button>
           <button className="icon-btn" onClick={() => setShowVoiceSettings(!showVoiceSettings)}>
             <Icon name="settings_voice" style={{ color: showVoiceSettings ? 'var(--primary)' : 'inherit' }} />
           </button>
-          <button className={`icon-btn ${isLive ? 'live-active' : ''}`} onClick={toggleLive} disabled={!isOnline}>
-              <Icon name={!isOnline ? "wifi_off" : isLive ? "mic" : "mic_off"} />
+          <button className={`icon-btn ${voiceState !== 'idle' && voiceState !== 'error' ? 'live-active' : ''}`} onClick={toggleLive} disabled={!isOnline} title={VOICE_STATE_LABELS[voiceState]}>
+              <Icon name={!isOnline ? "wifi_off" : VOICE_STATE_ICONS[voiceState]} />
           </button>
         </div>
       </header>
 
+      {voiceState !== 'idle' && (
+        <div className={`voice-status ${voiceState} fade-in`}>
+          <Icon name={VOICE_STATE_ICONS[voiceState]} className={voiceState === 'connecting' ? 'spin' : undefined} />
+          <span>{VOICE_STATE_LABELS[voiceState]}</span>
+        </div>
+      )}
+
+      {showThreads && (
+        <div className="thread-panel glass-panel fade-in">
+          <div className="thread-panel-toolbar">
+            <input className="tx-input" placeholder="Keresés a beszélgetésekben..." value={threadQuery} onChange={e => setThreadQuery(e.target.value)} />
+            <button className="icon-btn" onClick={() => onSelectThread(null)} title={DEFAULT_THREAD_TITLE}>
+              <Icon name="add_comment" />
+            </button>
+          </div>
+          <div className="thread-list custom-scrollbar">
+            {threadResults.map(({ thread, snippet }) => (
+              <div key={thread.id} className={`thread-row ${thread.id === threadId ? 'active' : ''}`}>
+                <button className="thread-open" onClick={() => onSelectThread(thread.id)}>
+                  <span className="thread-title">{thread.title}</span>
+                  <span className="thread-meta">
+                    {new Date(thread.updatedAt).toLocaleString('hu-HU', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })} · {thread.messages.length} üzenet
+                    {threadPendingCount(thread) > 0 && <span className="warning-text"> · {threadPendingCount(thread)} jóváhagyásra vár</span>}
+                  </span>
+                  {snippet && <span className="thread-snippet">{snippet}</span>}
+                </button>
+                <button className="icon-btn-mini" onClick={() => downloadBlob(new Blob([chatThreadToMarkdown(thread)], { type: 'text/markdown' }), `herwinner_chat_${toIsoDate(new Date(thread.createdAt))}.md`)} title="Exportálás">
+                  <Icon name="download" />
+                </button>
+                <button className="icon-btn-mini" onClick={() => onDeleteThread(thread.id)} title="Törlés">
+                  <Icon name="delete" />
+                </button>
+              </div>
+            ))}
+            {threads.length === 0 && <div className="thread-empty">Még nincs mentett beszélgetés.</div>}
+            {threads.length > 0 && threadResults.length === 0 && <div className="thread-empty">Nincs találat.</div>}
+          </div>
+        </div>
+      )}
+
       {showVoiceSettings && (
         <div className="voice-settings-overlay glass-panel fade-in">
           <div className="settings-section">
@@ -725,32 +4596,50 @@ const AiAssistantView = ({ onAddRecord, isOnline }: { onAddRecord: (r: Financial
 
       <div className="chat-messages custom-scrollbar">
         {messages.map(msg => (
-          <div key={msg.id} className={`chat-bubble ${msg.role}`}>
+          <div key={msg.id} className={`chat-bubble ${msg.role}${msg.voice ? ' voice' : ''}${msg.partial ? ' partial' : ''}`}>
             {msg.pendingTx ? (
                 <div className="confirmation-card glass-panel fade-in">
                     <div className="tx-header">
-                        <Icon name="receipt_long" />
-                        <span>Jóváhagyás</span>
+                        <Icon name={PENDING_ACTION_ICONS[msg.pendingTx.action ?? 'add']} />
+                        <span>{PENDING_ACTION_LABELS[msg.pendingTx.action ?? 'add']}</span>
                         <div style={{ display: 'flex', gap: '4px' }}>
-                            <button className="icon-btn-mini" onClick={() => handleConfirmation(msg.pendingTx!, true)} title="Azonnali rögzítés">
+                            <button className="icon-btn-mini" onClick={() => handleConfirmation(msg.pendingTx!, true)} title="Azonnali jóváhagyás">
                                 <Icon name="bolt" style={{ fontSize: '14px', color: 'var(--warning)' }} />
                             </button>
-                            <button className="icon-btn-mini" onClick={() => updatePendingTx(msg.pendingTx!.id, { isEditing: !msg.pendingTx!.isEditing })} title="Szerkesztés">
-                                <Icon name={msg.pendingTx.isEditing ? "check" : "edit"} style={{ fontSize: '14px' }} />
-                            </button>
+                            {msg.pendingTx.action !== 'delete' && (
+                                <button className="icon-btn-mini" onClick={() => updatePendingTx(msg.pendingTx!.id, { isEditing: !msg.pendingTx!.isEditing })} title="Szerkesztés">
+                                    <Icon name={msg.pendingTx.isEditing ? "check" : "edit"} style={{ fontSize: '14px' }} />
+                                </button>
+                            )}
                         </div>
                     </div>
                     {msg.pendingTx.isEditing ? (
                         <div className="tx-edit-fields">
-                            <input className="tx-input" value={msg.pendingTx.name} onChange={e => updatePendingTx(msg.pendingTx!.id, { name: e.target.value })} />
+                            {msg.pendingTx.action !== 'budget' && <input className="tx-input" value={msg.pendingTx.name} onChange={e => updatePendingTx(msg.pendingTx!.id, { name: e.target.value })} />}
                             <input className="tx-input" type="number" value={msg.pendingTx.amount} onChange={e => updatePendingTx(msg.pendingTx!.id, { amount: parseFloat(e.target.value) || 0 })} />
+                            {msg.pendingTx.action !== 'budget' && <CategorySelect className="tx-input" categories={categories} value={msg.pendingTx.category} onChange={category => updatePendingTx(msg.pendingTx!.id, { category })} />}
                         </div>
+                    ) : msg.pendingTx.action && msg.pendingTx.action !== 'add' ? (
+                        <PendingChangeDiff tx={msg.pendingTx} categories={categories} />
                     ) : (
                         <div className="tx-details">
                             <div className="tx-name">{msg.pendingTx.name}</div>
-                            <div className={`tx-amt ${msg.pendingTx.amount >= 0 ? 'success-text' : 'danger-text'}`}>{formatCurrency(msg.pendingTx.amount)}</div>
+                            <CategoryTag name={msg.pendingTx.category} categories={categories} />
+                            <div className={`tx-amt ${msg.pendingTx.amount >= 0 ? 'success-text' : 'danger-text'}`}>{formatCurrency(msg.pendingTx.amount, msg.pendingTx.currency)}</div>
                         </div>
                     )}
+                    {msg.pendingTx.attachmentIds?.length ? (
+                        <div className="tx-attachment">
+                            <Icon name="attach_file" style={{ fontSize: '14px' }} />
+                            <span>Nyugta csatolva{msg.pendingTx.date ? ` · ${msg.pendingTx.date}` : ''}</span>
+                        </div>
+                    ) : null}
+                    {(msg.pendingTx.action ?? 'add') === 'add' && (() => {
+                        const suggestion = categorize(msg.pendingTx);
+                        return suggestion && suggestion.category !== msg.pendingTx.category && (
+                            <CategorySuggestionChip suggestion={suggestion} categories={categories} onApply={category => updatePendingTx(msg.pendingTx!.id, { category })} />
+                        );
+                    })()}
                     <div className="tx-actions">
                         <button className="confirm-btn" onClick={() => handleConfirmation(msg.pendingTx!, true)}>Mentés</button>
                         <button className="cancel-btn" onClick={() => handleConfirmation(msg.pendingTx!, false)}>Mégse</button>
@@ -758,8 +4647,9 @@ const AiAssistantView = ({ onAddRecord, isOnline }: { onAddRecord: (r: Financial
                 </div>
             ) : (
                 <div style={{ position: 'relative' }}>
+                    {msg.voice && <span className="voice-turn-label"><Icon name="mic" /> Hangon</span>}
                     <ReactMarkdown remarkPlugins={[remarkGfm]}>{msg.text}</ReactMarkdown>
-                    {msg.resolvedTx && (
+                    {msg.resolvedTx && (msg.resolvedTx.action ?? 'add') === 'add' && (
                         <div style={{ marginTop: '8px', display: 'flex', justifyContent: 'flex-end' }}>
                             <button className="sync-badge-btn" onClick={() => triggerDirectRecord(msg.resolvedTx)} style={{ background: 'rgba(255,255,255,0.05)', color: 'var(--secondary)' }}>
                                 <Icon name="replay" style={{ fontSize: '12px' }} />
@@ -780,43 +4670,53 @@ const AiAssistantView = ({ onAddRecord, isOnline }: { onAddRecord: (r: Financial
             )}
           </div>
         ))}
+        {ownOutboxItems.map(item => (
+          <div key={item.id} className={`chat-bubble ${item.kind === 'chat' ? 'user' : 'system'} outbox-bubble`}>
+            <div>{item.kind === 'chat' ? item.payload : item.kind === 'analysis' ? 'Pénzügyi elemzés kérése' : `Kép: ${item.payload}`}</div>
+            <OutboxStatusChip item={item} onRetry={outbox.retry} onDiscard={outbox.remove} />
+          </div>
+        ))}
         {isLoading && <div className="typing-indicator"><span></span><span></span><span></span></div>}
         <div ref={messagesEndRef} />
       </div>
 
-      <div className={`chat-input-area glass-panel ${!isOnline ? 'offline-dim' : ''}`}>
-        <button className="icon-btn" onClick={() => triggerDirectRecord()} disabled={!isOnline} style={{ padding: '4px' }}>
+      <div className="chat-input-area glass-panel">
+        <button className="icon-btn" onClick={() => triggerDirectRecord()} style={{ padding: '4px' }}>
             <Icon name="add" style={{ fontSize: '20px' }} />
         </button>
-        <input placeholder="Írj üzenetet..." value={inputText} onChange={(e) => setInputText(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && sendMessage(inputText)} disabled={!isOnline} />
-        <button onClick={() => sendMessage(inputText)} className="send-btn" disabled={!isOnline}><Icon name="send" /></button>
+        <button className="icon-btn" onClick={() => receiptInputRef.current?.click()} disabled={!isOnline || isLoading} style={{ padding: '4px' }} title="Nyugta vagy számla fotózása / feltöltése">
+            <Icon name="photo_camera" style={{ fontSize: '20px' }} />
+        </button>
+        <input
+            ref={receiptInputRef}
+            type="file"
+            accept="image/*,application/pdf"
+            style={{ display: 'none' }}
+            onChange={e => { const file = e.target.files?.[0]; e.target.value = ''; if (file) captureReceipt(file); }}
+        />
+        <input placeholder={isOnline ? "Írj üzenetet..." : "Offline: az üzenet a kapcsolat helyreállásakor megy el..."} value={inputText} onChange={(e) => setInputText(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && sendMessage(inputText)} />
+        <button onClick={() => sendMessage(inputText)} className="send-btn"><Icon name={isOnline ? "send" : "schedule_send"} /></button>
       </div>
     </div>
   );
 };
 
 // --- CREATIVE VIEW ---
-const CreativeView = ({ isOnline }: { isOnline: boolean }) => {
+const CreativeView = ({ generatedImageUrl, onImageGenerated, isOnline, outbox }: { generatedImageUrl: string | null, onImageGenerated: (url: string) => void, isOnline: boolean, outbox: OutboxControls }) => {
   const [prompt, setPrompt] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
-  const [generatedImageUrl, setGeneratedImageUrl] = useState<string | null>(null);
+  const queuedImages = outbox.items.filter(i => i.kind === 'image');
 
   const generateImage = async () => {
-    if (!prompt.trim() || !isOnline) return;
+    if (!prompt.trim()) return;
+    if (!isOnline) {
+      outbox.enqueue('image', prompt);
+      setPrompt('');
+      return;
+    }
     setIsGenerating(true);
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-pro-image-preview',
-        contents: { parts: [{ text: prompt }] },
-        config: { imageConfig: { aspectRatio: "1:1", imageSize: "1K" } }
-      });
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-          setGeneratedImageUrl(`data:image/png;base64,${part.inlineData.data}`);
-          break;
-        }
-      }
+      onImageGenerated(await runImagePrompt(prompt));
     } catch (e: any) { console.error(e); }
     finally { setIsGenerating(false); }
   };
@@ -824,28 +4724,84 @@ const CreativeView = ({ isOnline }: { isOnline: boolean }) => {
   return (
     <div className="view-container">
       <header className="view-header"><h2>Képgenerátor</h2><Icon name="palette" /></header>
-      <div className={`glass-panel ${!isOnline ? 'offline-dim' : ''}`}>
-        <textarea placeholder="Mit rajzoljak?" value={prompt} onChange={(e) => setPrompt(e.target.value)} className="creative-input" disabled={!isOnline} />
-        <button className="ai-analysis-btn w-full" onClick={generateImage} disabled={isGenerating || !isOnline}>{isGenerating ? 'Generálás...' : 'Indítás'}</button>
+      <div className="glass-panel">
+        <textarea placeholder="Mit rajzoljak?" value={prompt} onChange={(e) => setPrompt(e.target.value)} className="creative-input" />
+        <button className="ai-analysis-btn w-full" onClick={generateImage} disabled={isGenerating}>{isGenerating ? 'Generálás...' : isOnline ? 'Indítás' : 'Sorba állítás'}</button>
       </div>
+      {queuedImages.map(item => (
+        <div key={item.id} className="glass-panel outbox-row fade-in">
+          <span>{item.payload}</span>
+          <OutboxStatusChip item={item} onRetry={outbox.retry} onDiscard={outbox.remove} />
+        </div>
+      ))}
       {generatedImageUrl && <img src={generatedImageUrl} alt="Gen" className="gen-img fade-in" />}
     </div>
   );
 };
 
 // --- MAIN APP ---
-const App = () => {
+const App = ({ syncAdapter, ledgerRepository, outboxRepository, recurringRuleRepository, budgetRepository, exchangeRateRepository, importProfileRepository, savedFilterRepository, categoryRepository, categoryRuleRepository, healthSettingsRepository, healthHistoryRepository, attachmentRepository, chatThreadRepository }: { 
+    syncAdapter: SyncAdapter, 
+    ledgerRepository: LedgerRepository, 
+    outboxRepository: OutboxRepository,
+    recurringRuleRepository: RecurringRuleRepository,
+    budgetRepository: BudgetRepository,
+    exchangeRateRepository: ExchangeRateRepository,
+    importProfileRepository: ImportProfileRepository,
+    savedFilterRepository: SavedFilterRepository,
+    categoryRepository: CategoryRepository,
+    categoryRuleRepository: CategoryRuleRepository,
+    healthSettingsRepository: HealthSettingsRepository,
+    healthHistoryRepository: HealthHistoryRepository,
+    attachmentRepository: AttachmentRepository,
+    chatThreadRepository: ChatThreadRepository
+}) => {
     const [view, setView] = useState<'finance' | 'ledger' | 'ai' | 'creative'>('ai');
+    // A napló lekérdezése itt él, hogy más nézetek (pl. a diagramok) szűrt naplóra tudjanak ugrani
+    const [ledgerQuery, setLedgerQuery] = useState('');
     const [isOnline, setIsOnline] = useState(navigator.onLine);
     const [isSyncing, setIsSyncing] = useState(false);
     
     // Ütközési sor kezelése
-    const [conflictsToResolve, setConflictsToResolve] = useState<{ local: FinancialRecord, remote: FinancialRecord }[]>([]);
+    const [conflictsToResolve, setConflictsToResolve] = useState<SyncConflict[]>([]);
     
-    const [ledgerRecords, setLedgerRecords] = useState<FinancialRecord[]>(() => {
-        const saved = localStorage.getItem('herwinner_ledger');
-        return saved ? JSON.parse(saved) : [];
-    });
+    const [ledgerRecords, setLedgerRecords] = useState<FinancialRecord[]>([]);
+    const [isLedgerLoaded, setIsLedgerLoaded] = useState(false);
+
+    const ledgerRef = useRef(ledgerRecords);
+    ledgerRef.current = ledgerRecords;
+    const persistedRef = useRef(new Map<string, FinancialRecord>());
+    const ledgerLoadedRef = useRef(false);
+
+    const [outboxItems, setOutboxItems] = useState<OutboxItem[]>([]);
+    const outboxRef = useRef(outboxItems);
+    outboxRef.current = outboxItems;
+    const outboxInFlightRef = useRef(false);
+    // Az elemzés és a generált kép az App szintjén marad, így a háttérben visszajátszott eredmény sem vész el
+    const [aiAnalysis, setAiAnalysis] = useState('');
+    const [generatedImageUrl, setGeneratedImageUrl] = useState<string | null>(null);
+
+    const [recurringRules, setRecurringRules] = useState<RecurringRule[]>([]);
+    const [budgets, setBudgets] = useState<Budget[]>([]);
+    const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+    const exchangeRatesRef = useRef(exchangeRates);
+    exchangeRatesRef.current = exchangeRates;
+    const [importProfiles, setImportProfiles] = useState<ImportProfile[]>([]);
+    const [savedFilters, setSavedFilters] = useState<SavedFilter[]>([]);
+    const [categories, setCategories] = useState<Category[]>([]);
+    const categoriesRef = useRef(categories);
+    categoriesRef.current = categories;
+    const [categoryRules, setCategoryRules] = useState<CategoryRule[]>([]);
+    const [healthWeights, setHealthWeights] = useState<HealthWeights>(DEFAULT_HEALTH_WEIGHTS);
+    const [healthHistory, setHealthHistory] = useState<HealthSnapshot[]>([]);
+    const [attachments, setAttachments] = useState<Attachment[]>([]);
+    const [chatThreads, setChatThreads] = useState<ChatThread[]>([]);
+    // Az aktív beszélgetés a nézetváltást túléli; betöltéskor a legutóbb módosított szál nyílik meg
+    const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+    const syncInFlightRef = useRef(false);
+    // A folyamatban lévő push tételei: ezeket a szerver még elfogadhatja, ezért törléskor sírkő kell belőlük
+    const pushingIdsRef = useRef(new Set<string>());
+    const syncAgainRef = useRef(false);
 
     useEffect(() => {
         const handleOnline = () => { setIsOnline(true); triggerSync(); };
@@ -856,70 +4812,415 @@ const App = () => {
             window.removeEventListener('online', handleOnline); 
             window.removeEventListener('offline', handleOffline); 
         };
-    }, [ledgerRecords]);
+    }, []);
+
+    useEffect(() => {
+        ledgerRepository.loadAll().then(records => {
+            persistedRef.current = new Map(records.map(r => [r.id, r]));
+            ledgerLoadedRef.current = true;
+            // Revízió nélküli tételek sosem jutottak el a szerverig, ezért feltöltésre várnak.
+            const loaded = records.map(r => r.revision === undefined && r.syncStatus !== 'conflict' ? { ...r, syncStatus: 'pending' as SyncStatus } : r);
+            // A betöltés előtt rögzített tételek megmaradnak, és elsőbbséget élveznek a tárolt változattal szemben
+            setLedgerRecords(prev => {
+                const added = new Set(prev.map(r => r.id));
+                return [...prev, ...loaded.filter(r => !added.has(r.id))];
+            });
+            setIsLedgerLoaded(true);
+            if (navigator.onLine) triggerSync();
+        }).catch(e => console.error(e));
+    }, [ledgerRepository]);
+
+    useEffect(() => {
+        // A megszakadt küldések újra sorba kerülnek
+        outboxRepository.loadAll().then(items => {
+            setOutboxItems(items.map(i => i.status === 'sending' ? { ...i, status: 'queued' as OutboxStatus } : i));
+        }).catch(e => console.error(e));
+    }, [outboxRepository]);
+
+    useEffect(() => {
+        recurringRuleRepository.loadAll().then(setRecurringRules).catch(e => console.error(e));
+    }, [recurringRuleRepository]);
+
+    useEffect(() => {
+        budgetRepository.loadAll().then(setBudgets).catch(e => console.error(e));
+    }, [budgetRepository]);
+
+    useEffect(() => {
+        exchangeRateRepository.loadAll().then(setExchangeRates).catch(e => console.error(e));
+    }, [exchangeRateRepository]);
+
+    useEffect(() => {
+        importProfileRepository.loadAll().then(setImportProfiles).catch(e => console.error(e));
+    }, [importProfileRepository]);
+
+    useEffect(() => {
+        savedFilterRepository.loadAll().then(setSavedFilters).catch(e => console.error(e));
+    }, [savedFilterRepository]);
+
+    useEffect(() => {
+        categoryRepository.loadAll().then(setCategories).catch(e => console.error(e));
+    }, [categoryRepository]);
+
+    useEffect(() => {
+        categoryRuleRepository.loadAll().then(setCategoryRules).catch(e => console.error(e));
+    }, [categoryRuleRepository]);
+
+    useEffect(() => {
+        healthSettingsRepository.loadAll().then(saved => { if (saved[0]) setHealthWeights({ ...DEFAULT_HEALTH_WEIGHTS, ...saved[0] }); }).catch(e => console.error(e));
+    }, [healthSettingsRepository]);
+
+    useEffect(() => {
+        healthHistoryRepository.loadAll().then(setHealthHistory).catch(e => console.error(e));
+    }, [healthHistoryRepository]);
+
+    useEffect(() => {
+        attachmentRepository.loadAll().then(setAttachments).catch(e => console.error(e));
+    }, [attachmentRepository]);
+
+    useEffect(() => {
+        chatThreadRepository.loadAll()
+            .then(threads => {
+                setChatThreads(threads);
+                setActiveThreadId(prev => prev ?? threads[threads.length - 1]?.id ?? newThreadId());
+            })
+            .catch(e => {
+                console.error(e);
+                setActiveThreadId(prev => prev ?? newThreadId());
+            });
+    }, [chatThreadRepository]);
+
+    // A helyi osztályozó a napló változásakor újratanul; hálózat nélkül is működik
+    const classifier = useMemo(() => trainCategoryClassifier(ledgerRecords, fallbackCategoryName(categories)), [ledgerRecords, categories]);
+    const categorize = useMemo(() => createCategorizer(categoryRules, classifier, categories), [categoryRules, classifier, categories]);
+
+    // Inkrementális mentés: csak a megváltozott és törölt tételek kerülnek az adatbázisba
+    useEffect(() => {
+        if (!isLedgerLoaded) return;
+        const previous = persistedRef.current;
+        const next = new Map(ledgerRecords.map(r => [r.id, r]));
+        const changed = ledgerRecords.filter(r => previous.get(r.id) !== r);
+        const removedIds = [...previous.keys()].filter(id => !next.has(id));
+        persistedRef.current = next;
+        if (changed.length > 0 || removedIds.length > 0) {
+            ledgerRepository.write(changed, removedIds).catch(e => console.error(e));
+        }
+    }, [ledgerRecords, isLedgerLoaded]);
+
+    // Változásfolyam: más eszköz módosításai után azonnal lehúzzuk az újdonságokat
+    useEffect(() => syncAdapter.subscribe(() => { if (navigator.onLine) triggerSync(); }), [syncAdapter]);
 
     const triggerSync = async () => {
+        if (!ledgerLoadedRef.current) return;
+        if (syncInFlightRef.current) {
+            syncAgainRef.current = true;
+            return;
+        }
+        syncInFlightRef.current = true;
         setIsSyncing(true);
-        // Szimulált hálózati késleltetés
-        await new Promise(r => setTimeout(r, 1500));
-        
-        const newConflicts: { local: FinancialRecord, remote: FinancialRecord }[] = [];
-        const serverTime = Date.now();
+        try {
+            const pushed = ledgerRef.current.filter(r => r.syncStatus === 'pending' || r.syncStatus === 'tombstone');
+            pushingIdsRef.current = new Set(pushed.map(r => r.id));
+            const pushResult = pushed.length > 0
+                ? await syncAdapter.push(pushed.map(({ base, ...r }) => r))
+                : { accepted: [], conflicts: [], revision: 0 };
+            const sinceRevision = parseInt(localStorage.getItem('herwinner_sync_revision') || '0');
+            const pullResult = await syncAdapter.pull(sinceRevision);
 
-        const updatedRecords = ledgerRecords.map(r => {
-            const isExistingRecord = parseInt(r.id) < (serverTime - 10000);
-            
-            // Csak akkor szimulálunk szerver-oldali változást, ha a rekord már egy ideje létezik
-            // Ez elkerüli, hogy az éppen most hozzáadott dolgok azonnal ütközzenek
-            const serverHasUpdate = isExistingRecord && Math.random() > 0.92; // 8% esély szerver változásra
-
-            if (serverHasUpdate) {
-                const serverLastModified = serverTime - 5000;
-                const remoteVersion: FinancialRecord = { 
-                    ...r, 
-                    name: r.name + " (Szerver frissítés)", 
-                    amount: r.amount + (Math.random() > 0.5 ? 500 : -500),
-                    lastModified: serverLastModified,
-                    syncStatus: 'synced'
-                };
-
-                if (r.syncStatus === 'pending') {
-                    // VALÓDI ÜTKÖZÉS: Mindkét fél módosította az adatot offline időszak alatt
-                    newConflicts.push({ local: r, remote: remoteVersion });
-                    return { ...r, syncStatus: 'conflict' as SyncStatus };
-                } else {
-                    // Csak a szerveren történt változás -> automatikus letöltés
-                    return remoteVersion;
-                }
+            const { records, conflicts } = applySyncResults(ledgerRef.current, pushed, pushResult, pullResult);
+            if (conflicts.length > 0) {
+                setConflictsToResolve(prev => [...prev, ...conflicts]);
             }
+            setLedgerRecords(records);
+            localStorage.setItem('herwinner_sync_revision', pullResult.revision.toString());
+        } catch (e) {
+            // A függő tételek megmaradnak, a következő szinkron újrapróbálja őket
+            console.error(e);
+        } finally {
+            pushingIdsRef.current = new Set();
+            syncInFlightRef.current = false;
+            setIsSyncing(false);
+        }
+        if (syncAgainRef.current) {
+            syncAgainRef.current = false;
+            triggerSync();
+        }
+    };
+
+    const pendingCount = ledgerRecords.filter(r => r.syncStatus === 'pending' || r.syncStatus === 'tombstone').length;
+    const visibleRecords = ledgerRecords.filter(r => r.syncStatus !== 'tombstone');
+
+    // Minden helyi módosítás függőben kerül a naplóba; online állapotban azonnal feltöltjük
+    useEffect(() => {
+        if (isOnline && pendingCount > 0) triggerSync();
+    }, [ledgerRecords, isOnline]);
+
+    const saveOutboxItem = (item: OutboxItem) => {
+        setOutboxItems(prev => prev.some(i => i.id === item.id) ? prev.map(i => i.id === item.id ? item : i) : [...prev, item]);
+        outboxRepository.put(item).catch(e => console.error(e));
+    };
 
-            // Ha nincs szerver változás, de nálunk pending, akkor sikeresen feltöltöttük
-            if (r.syncStatus === 'pending') {
-                return { ...r, syncStatus: 'synced' as SyncStatus, lastModified: serverTime };
+    const ledgerToolContext = (): LedgerToolContext => ({
+        records: ledgerRef.current.filter(r => r.syncStatus !== 'tombstone'),
+        rates: exchangeRatesRef.current
+    });
+
+    const executeOutboxItem = (item: OutboxItem): Promise<ChatReply | string> => {
+        switch (item.kind) {
+            case 'chat': return runChatPrompt(item.history ?? [], userTurn(item.payload, item.functionResponses), activeCategoryNames(categoriesRef.current), ledgerToolContext());
+            case 'analysis': return runLedgerAnalysis(ledgerToolContext());
+            case 'image': return runImagePrompt(item.payload);
+        }
+    };
+
+    // A sorban álló kéréseket egyenként, létrehozási sorrendben játsszuk vissza
+    const processOutbox = async () => {
+        if (outboxInFlightRef.current) return;
+        outboxInFlightRef.current = true;
+        const attempted = new Set<string>();
+        try {
+            while (navigator.onLine) {
+                const next = outboxRef.current.find(i => i.status === 'queued' && !attempted.has(i.id));
+                if (!next) break;
+                attempted.add(next.id);
+                saveOutboxItem({ ...next, status: 'sending' });
+                try {
+                    const result = await executeOutboxItem(next);
+                    saveOutboxItem({ ...next, status: 'done', result });
+                } catch (e: any) {
+                    console.error(e);
+                    // Ha közben megszakadt a kapcsolat, a tétel visszakerül a sorba
+                    saveOutboxItem({ ...next, status: navigator.onLine ? 'failed' : 'queued', error: e?.message });
+                }
             }
+        } finally {
+            outboxInFlightRef.current = false;
+        }
+    };
 
-            return r;
-        });
+    useEffect(() => {
+        if (isOnline && outboxItems.some(i => i.status === 'queued')) processOutbox();
+    }, [outboxItems, isOnline]);
+
+    // A megnyitatlan szálhoz érkezett offline válasz a szál tárolt állapotába kerül; a nyitott szálét maga a nézet veszi át
+    // (A szálak betöltéséig az aktív szál sincs kijelölve, addig várunk, hogy ne írjuk felül a tárolt szálat.)
+    useEffect(() => {
+        if (!activeThreadId) return;
+        const done = outboxItems.filter(i => i.kind === 'chat' && i.status === 'done' && i.threadId && !(view === 'ai' && i.threadId === activeThreadId));
+        const updated = new Map<string, ChatThread>();
+        const ctx = { records: ledgerRef.current.filter(r => r.syncStatus !== 'tombstone'), budgets, categories };
+        for (const item of done) {
+            const thread = updated.get(item.threadId!) ?? chatThreads.find(t => t.id === item.threadId)
+                ?? { id: item.threadId!, title: DEFAULT_THREAD_TITLE, messages: [WELCOME_MESSAGE], history: [], awaiting: [], createdAt: item.createdAt, updatedAt: item.createdAt };
+            updated.set(thread.id, appendChatReply(thread, item, item.result as ChatReply, ctx));
+            outbox.remove(item.id);
+        }
+        updated.forEach(saveChatThread);
+    }, [outboxItems, view, activeThreadId]);
+
+    // A kész elemzést és képet a nyitott nézettől függetlenül átvesszük és kivesszük a sorból
+    useEffect(() => {
+        for (const item of outboxItems.filter(i => i.status === 'done' && i.kind !== 'chat')) {
+            if (item.kind === 'analysis') setAiAnalysis(item.result as string);
+            else setGeneratedImageUrl(item.result as string);
+            outbox.remove(item.id);
+        }
+    }, [outboxItems]);
 
-        if (newConflicts.length > 0) {
-            setConflictsToResolve(prev => [...prev, ...newConflicts]);
+    const outbox: OutboxControls = {
+        items: outboxItems,
+        enqueue: (kind, payload, chatContext) => saveOutboxItem({ id: Date.now().toString(), kind, payload, status: 'queued', createdAt: Date.now(), ...chatContext }),
+        retry: (id) => {
+            const item = outboxItems.find(i => i.id === id);
+            if (item) saveOutboxItem({ ...item, status: 'queued', error: undefined });
+        },
+        remove: (id) => {
+            setOutboxItems(prev => prev.filter(i => i.id !== id));
+            outboxRepository.remove(id).catch(e => console.error(e));
         }
+    };
+
+    const saveRule = (rule: RecurringRule) => {
+        setRecurringRules(prev => prev.some(r => r.id === rule.id) ? prev.map(r => r.id === rule.id ? rule : r) : [...prev, rule]);
+        recurringRuleRepository.put(rule).catch(e => console.error(e));
+    };
+
+    // A szabály leállítása nem törli a már rögzített előfordulásokat
+    const deleteRule = (id: string) => {
+        setRecurringRules(prev => prev.filter(r => r.id !== id));
+        recurringRuleRepository.remove(id).catch(e => console.error(e));
+    };
 
-        setLedgerRecords(updatedRecords);
-        setIsSyncing(false);
+    const saveBudget = (budget: Budget) => {
+        setBudgets(prev => prev.some(b => b.id === budget.id) ? prev.map(b => b.id === budget.id ? budget : b) : [...prev, budget]);
+        budgetRepository.put(budget).catch(e => console.error(e));
     };
 
-    const handleResolveConflict = (version: 'local' | 'remote') => {
+    const deleteBudget = (id: string) => {
+        setBudgets(prev => prev.filter(b => b.id !== id));
+        budgetRepository.remove(id).catch(e => console.error(e));
+    };
+
+    const saveHealthWeights = (weights: HealthWeights) => {
+        setHealthWeights(weights);
+        healthSettingsRepository.put(weights).catch(e => console.error(e));
+    };
+
+    const recordHealthScore = (snapshot: HealthSnapshot) => {
+        setHealthHistory(prev => [...prev.filter(h => h.id !== snapshot.id), snapshot]);
+        healthHistoryRepository.put(snapshot).catch(e => console.error(e));
+    };
+
+    const saveAttachment = (attachment: Attachment) => {
+        setAttachments(prev => [...prev.filter(a => a.id !== attachment.id), attachment]);
+        attachmentRepository.put(attachment).catch(e => console.error(e));
+    };
+
+    const deleteAttachment = (id: string) => {
+        setAttachments(prev => prev.filter(a => a.id !== id));
+        attachmentRepository.remove(id).catch(e => console.error(e));
+    };
+
+    const saveChatThread = (thread: ChatThread) => {
+        setChatThreads(prev => [...prev.filter(t => t.id !== thread.id), thread]);
+        chatThreadRepository.put(thread).catch(e => console.error(e));
+    };
+
+    // A jóvá nem hagyott nyugtakártyák csatolmányai a szállal együtt törlődnek
+    const deleteChatThread = (id: string) => {
+        chatThreads.find(t => t.id === id)?.messages.forEach(m => m.pendingTx?.attachmentIds?.forEach(deleteAttachment));
+        setChatThreads(prev => prev.filter(t => t.id !== id));
+        chatThreadRepository.remove(id).catch(e => console.error(e));
+        // A törölt szálba szánt, még sorban álló kérdések is elvesznek
+        outboxItems.filter(i => i.threadId === id).forEach(i => outbox.remove(i.id));
+        if (id === activeThreadId) setActiveThreadId(newThreadId());
+    };
+
+    const saveExchangeRate = (rate: ExchangeRate) => {
+        setExchangeRates(prev => prev.some(r => r.id === rate.id) ? prev.map(r => r.id === rate.id ? rate : r) : [...prev, rate]);
+        exchangeRateRepository.put(rate).catch(e => console.error(e));
+    };
+
+    const showCategoryInLedger = (category: string, month: string) => {
+        const [dateFrom, dateTo] = dateSpan(month)!;
+        setLedgerQuery(formatLedgerQuery({ ...emptyLedgerFilter(), categories: [category], dateFrom, dateTo }));
+        setView('ledger');
+    };
+
+    const saveCategory = (category: Category) => {
+        setCategories(prev => prev.some(c => c.id === category.id) ? prev.map(c => c.id === category.id ? category : c) : [...prev, category]);
+        categoryRepository.put(category).catch(e => console.error(e));
+    };
+
+    const saveCategoryRule = (rule: CategoryRule) => {
+        setCategoryRules(prev => prev.some(r => r.id === rule.id) ? prev.map(r => r.id === rule.id ? rule : r) : [...prev, rule]);
+        categoryRuleRepository.put(rule).catch(e => console.error(e));
+    };
+
+    const deleteCategoryRule = (id: string) => {
+        setCategoryRules(prev => prev.filter(r => r.id !== id));
+        categoryRuleRepository.remove(id).catch(e => console.error(e));
+    };
+
+    // Átnevezés és összevonás után a tételek, szabályok és keretek az új kategórianevet kapják
+    const migrateCategory = (from: string, to: string) => {
+        const now = Date.now();
+        setLedgerRecords(prev => prev.map(r => {
+            if (r.syncStatus === 'tombstone') return r;
+            const next = renameItemCategory(r, from, to);
+            return next === r ? r : { ...next, lastModified: now, syncStatus: 'pending' as SyncStatus };
+        }));
+        recurringRules.forEach(rule => {
+            const next = renameItemCategory(rule, from, to);
+            if (next !== rule) saveRule(next);
+        });
+        categoryRules.filter(r => r.category === from).forEach(r => saveCategoryRule({ ...r, category: to }));
+        budgets.filter(b => b.category === from).forEach(b => {
+            // Ha a célkategóriának már van ugyanarra az időszakra kerete, az marad érvényben
+            if (budgets.some(t => t.category === to && t.month === b.month)) deleteBudget(b.id);
+            else saveBudget({ ...b, category: to });
+        });
+    };
+
+    const renameCategory = (id: string, name: string) => {
+        const category = categories.find(c => c.id === id);
+        if (!category || categories.some(c => c.id !== id && c.name === name)) return;
+        saveCategory({ ...category, name });
+        migrateCategory(category.name, name);
+    };
+
+    // A forrás kategória megszűnik; alkategóriái a cél alá (vagy a cél főkategóriája alá) kerülnek, hogy a fa egyszintű maradjon
+    const mergeCategory = (sourceId: string, targetId: string) => {
+        const source = categories.find(c => c.id === sourceId);
+        const target = categories.find(c => c.id === targetId);
+        if (!source || !target || source.id === FALLBACK_CATEGORY_ID) return;
+        migrateCategory(source.name, target.name);
+        const newParent = target.parentId === source.id ? source.parentId : (target.parentId ?? target.id);
+        categories.filter(c => c.parentId === source.id).forEach(c => saveCategory({ ...c, parentId: c.id === target.id ? source.parentId : newParent }));
+        setCategories(prev => prev.filter(c => c.id !== source.id));
+        categoryRepository.remove(source.id).catch(e => console.error(e));
+    };
+
+    const deleteExchangeRate = (id: string) => {
+        setExchangeRates(prev => prev.filter(r => r.id !== id));
+        exchangeRateRepository.remove(id).catch(e => console.error(e));
+    };
+
+    const saveImportProfile = (profile: ImportProfile) => {
+        setImportProfiles(prev => [...prev.filter(p => p.id !== profile.id), profile]);
+        importProfileRepository.put(profile).catch(e => console.error(e));
+    };
+
+    const saveFilter = (filter: SavedFilter) => {
+        setSavedFilters(prev => [...prev.filter(f => f.id !== filter.id), filter]);
+        savedFilterRepository.put(filter).catch(e => console.error(e));
+    };
+
+    const deleteFilter = (id: string) => {
+        setSavedFilters(prev => prev.filter(f => f.id !== id));
+        savedFilterRepository.remove(id).catch(e => console.error(e));
+    };
+
+    // Esedékes előfordulások legenerálása betöltéskor, szabályváltozáskor és óránként
+    useEffect(() => {
+        if (!isLedgerLoaded) return;
+        const generateDue = () => {
+            const today = toIsoDate(new Date());
+            const created: FinancialRecord[] = [];
+            for (const rule of recurringRules) {
+                const dates = dueOccurrences(rule, today);
+                if (dates.length === 0) continue;
+                const existing = new Set(ledgerRef.current.map(r => r.id));
+                created.push(...dates.map(date => buildRecurringInstance(rule, date)).filter(r => !existing.has(r.id)));
+                saveRule({ ...rule, lastGenerated: dates[dates.length - 1] });
+            }
+            if (created.length > 0) {
+                const now = Date.now();
+                setLedgerRecords(prev => [...created.map(r => ({ ...r, lastModified: now, syncStatus: 'pending' as SyncStatus })), ...prev]);
+            }
+        };
+        generateDue();
+        const timer = setInterval(generateDue, 60 * 60 * 1000);
+        return () => clearInterval(timer);
+    }, [isLedgerLoaded, recurringRules]);
+
+    const handleResolveConflict = (version: 'local' | 'remote', merged?: RecordFields) => {
         if (conflictsToResolve.length === 0) return;
         
         const current = conflictsToResolve[0];
-        const serverTime = Date.now();
+        setConflictsToResolve(prev => prev.slice(1));
+
+        // Szerver oldali törlés elfogadása: a tétel helyben is eltűnik
+        if (version === 'remote' && current.remote.syncStatus === 'tombstone') {
+            setLedgerRecords(prev => prev.filter(r => r.id !== current.local.id));
+            return;
+        }
+
+        // A helyi verziót (vagy sírkövet) a szerver aktuális revíziójára alapozva küldjük fel újra, így felülírja azt
         const resolved = version === 'local' 
-            ? { ...current.local, syncStatus: 'synced' as SyncStatus, lastModified: serverTime } 
-            : { ...current.remote, syncStatus: 'synced' as SyncStatus, lastModified: current.remote.lastModified };
+            ? { ...current.local, ...merged, syncStatus: current.local.syncStatus === 'tombstone' ? 'tombstone' as SyncStatus : 'pending' as SyncStatus, lastModified: Date.now(), revision: current.remote.revision, base: pickFields(current.remote) } 
+            : asSynced(current.remote);
             
         setLedgerRecords(prev => prev.map(r => r.id === resolved.id ? resolved : r));
-        setConflictsToResolve(prev => prev.slice(1));
     };
 
     // CRUD műveletek metaadat-kezeléssel
@@ -927,31 +5228,54 @@ const App = () => {
         const finalRecord = {
             ...r,
             lastModified: Date.now(),
-            syncStatus: isOnline ? 'synced' : 'pending' as SyncStatus
+            syncStatus: 'pending' as SyncStatus
         };
-        setLedgerRecords([finalRecord, ...ledgerRecords]);
-        if (isOnline) triggerSync();
+        setLedgerRecords(prev => [finalRecord, ...prev]);
     };
 
     const updateRecord = (r: FinancialRecord) => {
         const finalRecord = {
             ...r,
             lastModified: Date.now(),
-            syncStatus: isOnline ? 'synced' : 'pending' as SyncStatus
+            syncStatus: 'pending' as SyncStatus
         };
-        setLedgerRecords(ledgerRecords.map(item => item.id === r.id ? finalRecord : item));
-        if (isOnline) triggerSync();
+        setLedgerRecords(prev => prev.map(item => item.id === r.id ? finalRecord : item));
     };
 
-    const deleteRecord = (id: string) => {
-        setLedgerRecords(ledgerRecords.filter(item => item.id !== id));
-        // Megjegyzés: Egy robusztusabb rendszerben a törlést is "pending delete" státusszal kellene követni,
-        // de ehhez a szervernek is tudnia kell a törlésről. Ebben a verzióban az azonnali lokális törlésre fókuszálunk.
+    const importRecords = (records: FinancialRecord[]) => {
+        const now = Date.now();
+        setLedgerRecords(prev => [...records.map(r => ({ ...r, lastModified: now, syncStatus: 'pending' as SyncStatus })), ...prev]);
     };
 
-    const pendingCount = ledgerRecords.filter(r => r.syncStatus === 'pending').length;
+    // Sorozatszerkesztés: a szabály és minden le nem választott előfordulás átveszi az új adatokat (a dátum kivételével)
+    const updateSeries = (r: FinancialRecord) => {
+        const rule = recurringRules.find(rule => rule.id === r.recurrence?.ruleId);
+        if (!rule) {
+            updateRecord(r);
+            return;
+        }
+        const fields = { name: r.name, amount: r.amount, currency: r.currency, category: r.category, comment: r.comment, splits: r.splits, tags: r.tags };
+        saveRule({ ...rule, ...fields });
+        const now = Date.now();
+        // A múltbeli előfordulások és a törölt (sírkő) tételek változatlanok maradnak, csak ez és a későbbiek frissülnek
+        setLedgerRecords(prev => prev.map(item => item.recurrence?.ruleId === rule.id && !item.recurrence.detached && item.syncStatus !== 'tombstone' && item.date >= r.date
+            ? { ...item, ...fields, lastModified: now, syncStatus: 'pending' as SyncStatus }
+            : item));
+    };
+
+    const deleteRecord = (id: string) => {
+        // A csatolmányok csak helyben élnek, a tétellel együtt törlődnek
+        ledgerRef.current.find(r => r.id === id)?.attachmentIds?.forEach(deleteAttachment);
+        // A szerverre már feltöltött tételből sírkő lesz, amit a következő szinkron továbbít.
+        // A még sosem szinkronizált tételt elég helyben eldobni, hacsak épp nem most megy fel a szerverre.
+        const pushing = pushingIdsRef.current.has(id);
+        setLedgerRecords(prev => prev.flatMap(item => {
+            if (item.id !== id) return [item];
+            if (item.revision === undefined && !pushing) return [];
+            return [{ ...item, syncStatus: 'tombstone' as SyncStatus, lastModified: Date.now() }];
+        }));
+    };
 
-    useEffect(() => { localStorage.setItem('herwinner_ledger', JSON.stringify(ledgerRecords)); }, [ledgerRecords]);
 
     return (
         <div className="app-shell">
@@ -960,6 +5284,7 @@ const App = () => {
             
             {conflictsToResolve.length > 0 && (
                 <ConflictModal 
+                    key={conflictsToResolve[0].local.id}
                     localRecord={conflictsToResolve[0].local} 
                     remoteRecord={conflictsToResolve[0].remote} 
                     onResolve={handleResolveConflict} 
@@ -967,18 +5292,86 @@ const App = () => {
             )}
 
             <div className="content-area">
-                {view === 'finance' && <DashboardView records={ledgerRecords} isOnline={isOnline} />}
+                {view === 'finance' && (
+                    <DashboardView 
+                        records={visibleRecords} 
+                        recurringRules={recurringRules}
+                        budgets={budgets}
+                        rates={exchangeRates}
+                        categories={categories}
+                        healthWeights={healthWeights}
+                        healthHistory={healthHistory}
+                        onShowCategory={showCategoryInLedger}
+                        onSaveBudget={saveBudget}
+                        onDeleteBudget={deleteBudget}
+                        onSaveRate={saveExchangeRate}
+                        onDeleteRate={deleteExchangeRate}
+                        onSaveHealthWeights={saveHealthWeights}
+                        onRecordHealthScore={recordHealthScore}
+                        analysis={aiAnalysis}
+                        onAnalysisChange={setAiAnalysis}
+                        isOnline={isOnline} 
+                        outbox={outbox} 
+                    />
+                )}
                 {view === 'ledger' && (
                     <NotesView 
-                        records={ledgerRecords} 
+                        records={visibleRecords} 
+                        recurringRules={recurringRules}
+                        rates={exchangeRates}
+                        categories={categories}
+                        attachments={attachments}
+                        query={ledgerQuery}
+                        onQueryChange={setLedgerQuery}
+                        categoryRules={categoryRules}
+                        categorize={categorize}
+                        importProfiles={importProfiles}
+                        savedFilters={savedFilters}
+                        onSaveImportProfile={saveImportProfile}
+                        onImportRecords={importRecords}
+                        onSaveFilter={saveFilter}
+                        onDeleteFilter={deleteFilter}
+                        onSaveCategory={saveCategory}
+                        onRenameCategory={renameCategory}
+                        onMergeCategory={mergeCategory}
+                        onSaveCategoryRule={saveCategoryRule}
+                        onDeleteCategoryRule={deleteCategoryRule}
                         onAddRecord={addRecord} 
                         onUpdateRecord={updateRecord} 
+                        onUpdateSeries={updateSeries}
                         onDeleteRecord={deleteRecord} 
+                        onSaveRule={saveRule}
+                        onDeleteRule={deleteRule}
+                        onSaveAttachment={saveAttachment}
+                        onDeleteAttachment={deleteAttachment}
                         isOnline={isOnline} 
                     />
                 )}
-                {view === 'ai' && <AiAssistantView onAddRecord={addRecord} isOnline={isOnline} />}
-                {view === 'creative' && <CreativeView isOnline={isOnline} />}
+                {view === 'ai' && activeThreadId && (
+                    <AiAssistantView
+                        key={activeThreadId}
+                        threadId={activeThreadId}
+                        threads={chatThreads}
+                        records={visibleRecords}
+                        rates={exchangeRates}
+                        budgets={budgets}
+                        categories={categories}
+                        attachments={attachments}
+                        categorize={categorize}
+                        onAddRecord={addRecord}
+                        onUpdateRecord={updateRecord}
+                        onDeleteRecord={deleteRecord}
+                        onSaveBudget={saveBudget}
+                        onSaveAttachment={saveAttachment}
+                        onDeleteAttachment={deleteAttachment}
+                        onSaveThread={saveChatThread}
+                        onDeleteThread={deleteChatThread}
+                        onSelectThread={id => setActiveThreadId(id ?? newThreadId())}
+                        isOnline={isOnline}
+                        outbox={outbox}
+                    />
+                )}
+                {view === 'creative' && <CreativeView generatedImageUrl={generatedImageUrl} onImageGenerated={setGeneratedImageUrl} isOnline={isOnline} outbox={outbox} />}
             </div>
             
             <nav className="bottom-nav">
@@ -991,5 +5384,22 @@ const App = () => {
     );
 };
 
+const syncAdapter = process.env.SYNC_URL
+    ? createHttpSyncAdapter(process.env.SYNC_URL)
+    : createLocalSyncServer('herwinner_sync_server');
+const ledgerRepository = createIndexedDbLedgerRepository('herwinner');
+const outboxRepository: OutboxRepository = createIndexedDbCollection('herwinner', 'outbox', 'createdAt');
+const recurringRuleRepository: RecurringRuleRepository = createIndexedDbCollection('herwinner', 'recurring_rules');
+const budgetRepository: BudgetRepository = createIndexedDbCollection('herwinner', 'budgets');
+const exchangeRateRepository: ExchangeRateRepository = createIndexedDbCollection('herwinner', 'exchange_rates');
+const importProfileRepository: ImportProfileRepository = createIndexedDbCollection('herwinner', 'import_profiles');
+const savedFilterRepository: SavedFilterRepository = createIndexedDbCollection('herwinner', 'saved_filters');
+const categoryRepository: CategoryRepository = createIndexedDbCollection('herwinner', 'categories');
+const categoryRuleRepository: CategoryRuleRepository = createIndexedDbCollection('herwinner', 'category_rules');
+const healthSettingsRepository: HealthSettingsRepository = createIndexedDbCollection('herwinner', 'health_settings');
+const healthHistoryRepository: HealthHistoryRepository = createIndexedDbCollection('herwinner', 'health_history');
+const attachmentRepository: AttachmentRepository = createIndexedDbCollection('herwinner', 'attachments');
+const chatThreadRepository: ChatThreadRepository = createIndexedDbCollection('herwinner', 'chat_threads', 'updatedAt');
+
 const root = document.getElementById('root');
-if (root) { createRoot(root).render(<App />); }
+if (root) { createRoot(root).render(<App syncAdapter={syncAdapter} ledgerRepository={ledgerRepository} outboxRepository={outboxRepository} recurringRuleRepository={recurringRuleRepository} budgetRepository={budgetRepository} exchangeRateRepository={exchangeRateRepository} importProfileRepository={importProfileRepository} savedFilterRepository={savedFilterRepository} categoryRepository={categoryRepository} categoryRuleRepository={categoryRuleRepository} healthSettingsRepository={healthSettingsRepository} healthHistoryRepository={healthHistoryRepository} attachmentRepository={attachmentRepository} chatThreadRepository={chatThreadRepository} />); }
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import type { ExchangeRate, FinancialRecord, RecurringRule } from './types';
+import { buildInsights, detectAnomalies, detectNewSubscriptions, forecastMonthEnd } from './insights';
+
+const record = (date: string, name: string, amount: number, extra: Partial<FinancialRecord> = {}): FinancialRecord => ({
+    id: `${name}-${date}`,
+    date,
+    name,
+    amount,
+    category: 'Egyéb',
+    comment: '',
+    ...extra
+});
+
+const rule = (id: string, name: string, amount: number, startDate: string, extra: Partial<RecurringRule> = {}): RecurringRule => ({
+    id,
+    name,
+    amount,
+    category: 'Lakhatás',
+    comment: '',
+    frequency: 'monthly',
+    interval: 1,
+    startDate,
+    ...extra
+});
+
+const rates: ExchangeRate[] = [{ id: 'EUR', rate: 400, updatedAt: 0 }];
+
+describe('forecastMonthEnd', () => {
+    // Három lezárt hónap: fizetés 5-én, szabályból generált lakbér 25-én, változó kiadás 20-án
+    const history = ['2026-07', '2026-08', '2026-09'].flatMap(m => [
+        record(`${m}-05`, 'Fizetés', 300000),
+        record(`${m}-20`, 'Bolt', -10000),
+        record(`${m}-25`, 'Lakbér', -100000, { recurrence: { ruleId: 'rent' } })
+    ]);
+    const rules = [
+        rule('rent', 'Lakbér', -100000, '2026-01-25', { lastGenerated: '2026-09-25' }),
+        rule('gym', 'Edzőterem', -10, '2026-01-20', { lastGenerated: '2026-09-20', currency: 'EUR' }),
+        rule('cloud', 'Felhő', -5, '2026-01-22', { lastGenerated: '2026-09-22', currency: 'USD' }),
+        // Már legenerált (jövőbeli tételként rögzített) előfordulás nem számít kétszer
+        rule('net', 'Internet', -8000, '2026-01-25', { lastGenerated: '2026-10-25' })
+    ];
+    const current = [
+        record('2026-10-03', 'Kávé', -5000),
+        record('2026-10-28', 'Biztosítás', -20000),
+        record('2026-10-25', 'Internet', -8000, { recurrence: { ruleId: 'net' } })
+    ];
+
+    it('adds scheduled records, remaining rule occurrences and the usual variable spending to the balance', () => {
+        const forecast = forecastMonthEnd([...history, ...current], rules, rates, '2026-10-15');
+        expect(forecast.month).toBe('2026-10');
+        expect(forecast.opening).toBe(570000);
+        expect(forecast.balance).toBe(565000);
+        expect(forecast.scheduled).toBe(-28000);
+        // Lakbér és az euróban vezetett edzőterem; az árfolyam nélküli USD szabály kimarad
+        expect(forecast.recurring).toBe(-104000);
+        expect(forecast.variable).toBe(-10000);
+        expect(forecast.projected).toBe(423000);
+        expect(forecast.daysLeft).toBe(16);
+    });
+
+    it('averages variable spending only over months that have data', () => {
+        const forecast = forecastMonthEnd([record('2026-09-20', 'Bolt', -9000), record('2026-10-01', 'Fizetés', 100000)], [], rates, '2026-10-15');
+        expect(forecast.variable).toBe(-9000);
+        expect(forecastMonthEnd([record('2026-10-01', 'Fizetés', 100000)], [], rates, '2026-10-15').variable).toBe(0);
+    });
+});
+
+describe('detectAnomalies', () => {
+    // Átlag 10 000, szórás ≈ 632,5 → a 2,5-ös z-érték határa ≈ 11 581
+    const groceries = ['2026-04', '2026-05', '2026-06', '2026-07', '2026-08']
+        .map((m, i) => record(`${m}-10`, 'Bolt', -[10000, 11000, 9000, 10000, 10000][i], { category: 'Étel' }));
+
+    it('flags an expense at or above the z-score threshold', () => {
+        const result = detectAnomalies([...groceries, record('2026-10-05', 'Bolt', -11600, { category: 'Étel' })], '2026-10');
+        expect(result).toHaveLength(1);
+        expect(result[0].category).toBe('Étel');
+        expect(result[0].mean).toBe(10000);
+        expect(result[0].zScore).toBeGreaterThanOrEqual(2.5);
+    });
+
+    it('ignores expenses below the threshold', () => {
+        expect(detectAnomalies([...groceries, record('2026-10-05', 'Bolt', -11500, { category: 'Étel' })], '2026-10')).toHaveLength(0);
+    });
+
+    it('needs at least five samples within the last six months', () => {
+        const spike = record('2026-10-05', 'Bolt', -50000, { category: 'Étel' });
+        expect(detectAnomalies([...groceries.slice(1), spike], '2026-10')).toHaveLength(0);
+        // A hat hónapnál régebbi minta nem számít bele
+        const outdated = { ...groceries[0], id: 'old', date: '2026-03-10' };
+        expect(detectAnomalies([outdated, ...groceries.slice(1), spike], '2026-10')).toHaveLength(0);
+    });
+
+    it('checks the category part of a split record', () => {
+        const split = record('2026-10-05', 'Hipermarket', -30000, {
+            category: 'Étel',
+            splits: [{ category: 'Étel', amount: -20000 }, { category: 'Tech', amount: -10000 }]
+        });
+        const result = detectAnomalies([...groceries, split], '2026-10');
+        expect(result.map(a => [a.category, a.amount])).toEqual([['Étel', 20000]]);
+    });
+});
+
+describe('detectNewSubscriptions', () => {
+    const monthly = (name: string, dates: string[], amounts: number[]) => dates.map((d, i) => record(d, name, amounts[i] ?? amounts[0]));
+
+    it('detects a new monthly charge with a similar amount', () => {
+        const result = detectNewSubscriptions(monthly('Netflix', ['2026-08-12', '2026-09-12', '2026-10-12'], [-4990]), [], '2026-10');
+        expect(result).toEqual([{ name: 'Netflix', category: 'Egyéb', amount: 4990, since: '2026-08-12', count: 3 }]);
+    });
+
+    it('accepts 25 to 35 day gaps and at most 10% amount change', () => {
+        expect(detectNewSubscriptions(monthly('A', ['2026-09-01', '2026-09-26'], [-1000, -1100]), [], '2026-10')).toHaveLength(1);
+        expect(detectNewSubscriptions(monthly('B', ['2026-09-01', '2026-10-06'], [-1000]), [], '2026-10')).toHaveLength(1);
+        expect(detectNewSubscriptions(monthly('C', ['2026-09-01', '2026-09-25'], [-1000]), [], '2026-10')).toHaveLength(0);
+        expect(detectNewSubscriptions(monthly('D', ['2026-09-01', '2026-10-07'], [-1000]), [], '2026-10')).toHaveLength(0);
+        expect(detectNewSubscriptions(monthly('E', ['2026-09-01', '2026-10-01'], [-1000, -1200]), [], '2026-10')).toHaveLength(0);
+    });
+
+    it('skips series that are already older than a few months or have stopped', () => {
+        expect(detectNewSubscriptions(monthly('Régi', ['2026-06-10', '2026-07-10', '2026-08-10', '2026-09-10'], [-990]), [], '2026-10')).toHaveLength(0);
+        expect(detectNewSubscriptions(monthly('Lemondott', ['2026-07-10', '2026-08-10'], [-990]), [], '2026-10')).toHaveLength(0);
+    });
+
+    it('excludes rule-backed series', () => {
+        const records = monthly('Spotify', ['2026-08-05', '2026-09-05', '2026-10-05'], [-1990]);
+        expect(detectNewSubscriptions(records, [rule('spotify', 'spotify', -1990, '2026-08-05')], '2026-10')).toHaveLength(0);
+        const generated = records.map(r => ({ ...r, recurrence: { ruleId: 'other' } }));
+        expect(detectNewSubscriptions(generated, [], '2026-10')).toHaveLength(0);
+    });
+});
+
+describe('buildInsights', () => {
+    const records = [
+        record('2026-09-01', 'Fizetés', 300000),
+        ...['2026-04', '2026-05', '2026-06', '2026-07', '2026-08'].map((m, i) => record(`${m}-10`, 'Bolt', -[10000, 11000, 9000, 10000, 10000][i], { category: 'Étel' })),
+        record('2026-10-05', 'Bolt', -30000, { category: 'Étel' }),
+        record('2026-09-12', 'Netflix', -4990),
+        record('2026-10-12', 'Netflix', -4990)
+    ];
+
+    it('adds the forecast only for the current month', () => {
+        expect(buildInsights(records, [], rates, '2026-10', '2026-10-15').map(i => i.kind)).toEqual(['forecast', 'anomaly', 'subscription']);
+        expect(buildInsights(records, [], rates, '2026-10', '2026-11-02').map(i => i.kind)).toEqual(['anomaly', 'subscription']);
+    });
+
+    it('rates a large anomaly as danger', () => {
+        const anomaly = buildInsights(records, [], rates, '2026-10', '2026-10-15').find(i => i.kind === 'anomaly')!;
+        expect(anomaly.severity).toBe('danger');
+        expect(anomaly.category).toBe('Étel');
+    });
+});
@@ -0,0 +1,135 @@
+import type { ExchangeRate, FinancialRecord, Insight, RecurringRule } from './types';
+import { convertToBase, dateSpan, dueOccurrences, formatCurrency, monthOf, monthsEndingAt, normalizeName, recordParts, shiftMonth } from './ledger';
+
+// Determinisztikus, hálózat nélküli elemzések alap pénznemre váltott tételeken
+export const FORECAST_HISTORY_MONTHS = 3;
+export const ANOMALY_HISTORY_MONTHS = 6;
+export const ANOMALY_MIN_SAMPLES = 5;
+export const ANOMALY_Z_SCORE = 2.5;
+export const SUBSCRIPTION_NEW_MONTHS = 3;
+
+const lastDayOfMonth = (month: string) => dateSpan(month)![1];
+const dayOfMonth = (date: string) => Number(date.slice(8, 10));
+
+// Hó végi egyenleg előrejelzése a mai napon (today) álló hónapra:
+// jelenlegi egyenleg + már rögzített jövőbeli tételek + hátralévő ismétlődő tételek
+// + az előző hónapok azonos időszakának (a hónap hátralévő napjainak) átlagos, nem ismétlődő forgalma.
+export const forecastMonthEnd = (records: FinancialRecord[], rules: RecurringRule[], rates: ExchangeRate[], today: string) => {
+    const month = monthOf(today);
+    const monthEnd = lastDayOfMonth(month);
+    const opening = records.filter(r => monthOf(r.date) < month).reduce((sum, r) => sum + r.amount, 0);
+    const balance = records.filter(r => r.date <= today).reduce((sum, r) => sum + r.amount, 0);
+    const scheduled = records.filter(r => r.date > today && r.date <= monthEnd).reduce((sum, r) => sum + r.amount, 0);
+    const recurring = rules
+        .flatMap(rule => {
+            const amount = convertToBase(rule.amount, rule.currency, rates);
+            if (amount === null) return [];
+            // A mai napig esedékes előfordulások már tételként szerepelnek a naplóban
+            const from = rule.lastGenerated && rule.lastGenerated > today ? rule.lastGenerated : today;
+            return dueOccurrences({ ...rule, lastGenerated: from }, monthEnd).map(() => amount);
+        })
+        .reduce((sum, a) => sum + a, 0);
+    const firstDate = records.reduce((min, r) => r.date < min ? r.date : min, today);
+    const historyMonths = monthsEndingAt(shiftMonth(month, -1), FORECAST_HISTORY_MONTHS).filter(m => m >= monthOf(firstDate));
+    const variable = historyMonths.length === 0 ? 0 : historyMonths
+        .map(m => records
+            .filter(r => monthOf(r.date) === m && !r.recurrence && dayOfMonth(r.date) > dayOfMonth(today))
+            .reduce((sum, r) => sum + r.amount, 0))
+        .reduce((sum, a) => sum + a, 0) / historyMonths.length;
+    return {
+        month,
+        opening,
+        balance,
+        scheduled,
+        recurring,
+        variable,
+        projected: balance + scheduled + recurring + variable,
+        daysLeft: dayOfMonth(monthEnd) - dayOfMonth(today)
+    };
+};
+
+// Szokatlan kiadás: a tétel (felosztásnál a kategória-rész) a kategória előző hónapokbeli kiadásaihoz mért z-értéke alapján
+export const detectAnomalies = (records: FinancialRecord[], month: string) => {
+    const from = shiftMonth(month, -ANOMALY_HISTORY_MONTHS);
+    const history = new Map<string, number[]>();
+    records
+        .filter(r => monthOf(r.date) >= from && monthOf(r.date) < month)
+        .flatMap(recordParts)
+        .filter(p => p.amount < 0)
+        .forEach(p => history.set(p.category, [...(history.get(p.category) ?? []), -p.amount]));
+
+    return records
+        .filter(r => monthOf(r.date) === month)
+        .flatMap(record => recordParts(record).filter(p => p.amount < 0).map(part => {
+            const samples = history.get(part.category) ?? [];
+            if (samples.length < ANOMALY_MIN_SAMPLES) return null;
+            const mean = samples.reduce((sum, v) => sum + v, 0) / samples.length;
+            const deviation = Math.sqrt(samples.reduce((sum, v) => sum + (v - mean) ** 2, 0) / samples.length);
+            if (deviation === 0) return null;
+            const zScore = (-part.amount - mean) / deviation;
+            return zScore >= ANOMALY_Z_SCORE ? { record, category: part.category, amount: -part.amount, mean, zScore } : null;
+        }))
+        .filter((a): a is NonNullable<typeof a> => a !== null)
+        .sort((a, b) => b.zScore - a.zScore);
+};
+
+// Új előfizetés: ismétlődő szabályhoz nem kötött, azonos nevű, kb. havonta (25–35 naponta) hasonló összeggel (±10%)
+// visszatérő kiadás, amely legalább kétszer előfordult, az utolsó néhány hónapban jelent meg és a hónapban vagy az előzőben is terhelt.
+export const detectNewSubscriptions = (records: FinancialRecord[], rules: RecurringRule[], month: string) => {
+    const known = new Set(rules.map(rule => normalizeName(rule.name)));
+    const groups = new Map<string, FinancialRecord[]>();
+    records
+        .filter(r => r.amount < 0 && !r.recurrence && monthOf(r.date) <= month)
+        .forEach(r => {
+            const key = normalizeName(r.name);
+            if (key && !known.has(key)) groups.set(key, [...(groups.get(key) ?? []), r]);
+        });
+
+    return [...groups.values()]
+        .map(group => group.sort((a, b) => a.date.localeCompare(b.date)))
+        .filter(group => {
+            if (group.length < 2) return false;
+            const first = group[0], last = group[group.length - 1];
+            if (monthOf(first.date) <= shiftMonth(month, -SUBSCRIPTION_NEW_MONTHS) || monthOf(last.date) < shiftMonth(month, -1)) return false;
+            const similar = group.every(r => Math.abs(r.amount - last.amount) <= Math.abs(last.amount) * 0.1);
+            return similar && group.slice(1).every((r, i) => {
+                const gap = (Date.parse(r.date) - Date.parse(group[i].date)) / 86400000;
+                return gap >= 25 && gap <= 35;
+            });
+        })
+        .map(group => ({ name: group[group.length - 1].name, category: group[group.length - 1].category, amount: -group[group.length - 1].amount, since: group[0].date, count: group.length }));
+};
+
+export const buildInsights = (records: FinancialRecord[], rules: RecurringRule[], rates: ExchangeRate[], month: string, today: string): Insight[] => {
+    const insights: Insight[] = [];
+    if (month === monthOf(today)) {
+        const forecast = forecastMonthEnd(records, rules, rates, today);
+        insights.push({
+            id: `forecast-${month}`,
+            kind: 'forecast',
+            severity: forecast.projected < 0 ? 'danger' : forecast.projected < forecast.opening ? 'warning' : 'info',
+            title: 'Várható hó végi egyenleg',
+            detail: `Jelenleg ${formatCurrency(forecast.balance)}; még ${forecast.daysLeft} nap, ismétlődő tételek: ${formatCurrency(forecast.recurring + forecast.scheduled)}, szokásos forgalom: ${formatCurrency(forecast.variable)}.`,
+            amount: forecast.projected
+        });
+    }
+    detectAnomalies(records, month).forEach(a => insights.push({
+        id: `anomaly-${a.record.id}-${a.category}`,
+        kind: 'anomaly',
+        severity: a.zScore >= ANOMALY_Z_SCORE * 1.5 ? 'danger' : 'warning',
+        title: `Szokatlan kiadás: ${a.record.name}`,
+        detail: `${a.record.date} · ${a.category} – a szokásos ${formatCurrency(a.mean)} helyett (z = ${a.zScore.toFixed(1)}).`,
+        amount: a.amount,
+        category: a.category
+    }));
+    detectNewSubscriptions(records, rules, month).forEach(sub => insights.push({
+        id: `subscription-${normalizeName(sub.name)}`,
+        kind: 'subscription',
+        severity: 'info',
+        title: `Új előfizetés: ${sub.name}`,
+        detail: `${sub.since} óta ${sub.count} havi terhelés · ${sub.category}`,
+        amount: sub.amount,
+        category: sub.category
+    }));
+    return insights;
+};
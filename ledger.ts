@@ -0,0 +1,100 @@
+// A napló tiszta segédfüggvényei (pénznem, dátum, ismétlődés, felosztás). Nem függnek a felülettől, így tesztből is importálhatók.
+import type { ExchangeRate, FinancialRecord, RecordSplit, RecurrenceFrequency, RecurringRule } from './types';
+
+// --- CURRENCY ---
+export const BASE_CURRENCY = 'HUF';
+
+export const formatCurrency = (val: number, currency: string = BASE_CURRENCY) =>
+    new Intl.NumberFormat('hu-HU', { style: 'currency', currency, maximumFractionDigits: currency === BASE_CURRENCY ? 0 : 2 }).format(val);
+
+// Alap pénznemre váltás; hiányzó árfolyamnál null, hogy a hívó jelezhesse a kimaradt tételt
+export const convertToBase = (amount: number, currency: string | undefined, rates: ExchangeRate[]) => {
+    if (!currency || currency === BASE_CURRENCY) return amount;
+    const rate = rates.find(r => r.id === currency);
+    return rate ? amount * rate.rate : null;
+};
+
+// --- NAMES ---
+export const getCategorySlug = (cat: string) => cat.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+
+export const normalizeName = (name: string) => getCategorySlug(name).replace(/[^a-z0-9]/g, '');
+
+// --- DATES ---
+export const toIsoDate = (d: Date) => d.toISOString().split('T')[0];
+export const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+export const monthOf = (date: string) => date.slice(0, 7);
+
+export const shiftMonth = (month: string, delta: number) => {
+    const [y, m] = month.split('-').map(Number);
+    return toIsoDate(new Date(Date.UTC(y, m - 1 + delta, 1))).slice(0, 7);
+};
+
+export const monthsEndingAt = (month: string, count: number) => Array.from({ length: count }, (_, i) => shiftMonth(month, i - count + 1));
+
+// "2026", "2026-09" vagy "2026-09-14" → az általa lefedett első és utolsó nap
+export const dateSpan = (value: string): [string, string] | null => {
+    if (/^\d{4}$/.test(value)) return [`${value}-01-01`, `${value}-12-31`];
+    const month = value.match(/^(\d{4})-(\d{2})$/);
+    if (month && (+month[2] < 1 || +month[2] > 12)) return null;
+    if (month) return [`${value}-01`, `${value}-${String(daysInMonth(+month[1], +month[2] - 1)).padStart(2, '0')}`];
+    return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value)) && toIsoDate(new Date(value)) === value ? [value, value] : null;
+};
+
+// --- SPLITS ---
+// A tétel kategóriánkénti részei; felosztás nélkül maga a tétel az egyetlen rész
+export const recordParts = (r: FinancialRecord): RecordSplit[] => r.splits?.length ? r.splits : [{ category: r.category, amount: r.amount }];
+
+// --- RECURRING RULES ---
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+    daily: 'Naponta',
+    weekly: 'Hetente',
+    monthly: 'Havonta',
+    yearly: 'Évente'
+};
+
+// Az n. előfordulás dátuma. Havi és éves szabálynál a rövidebb hónapokban a hónap utolsó napjára esik (pl. jan. 31 → feb. 28).
+export const occurrenceDate = (rule: RecurringRule, n: number) => {
+    const [y, m, d] = rule.startDate.split('-').map(Number);
+    const step = n * (rule.interval || 1);
+    if (rule.frequency === 'daily' || rule.frequency === 'weekly') {
+        return toIsoDate(new Date(Date.UTC(y, m - 1, d + (rule.frequency === 'daily' ? step : step * 7))));
+    }
+    const monthIndex = (m - 1) + (rule.frequency === 'monthly' ? step : step * 12);
+    const year = y + Math.floor(monthIndex / 12);
+    const month = monthIndex % 12;
+    return toIsoDate(new Date(Date.UTC(year, month, Math.min(rule.dayOfMonth || d, daysInMonth(year, month)))));
+};
+
+// A legutóbbi generálás óta esedékessé vált előfordulások, legfeljebb a megadott napig és a szabály végéig
+export const dueOccurrences = (rule: RecurringRule, until: string) => {
+    const limit = rule.endDate && rule.endDate < until ? rule.endDate : until;
+    const dates: string[] = [];
+    for (let n = 0; ; n++) {
+        const date = occurrenceDate(rule, n);
+        if (date > limit) break;
+        if (date >= rule.startDate && (!rule.lastGenerated || date > rule.lastGenerated)) dates.push(date);
+    }
+    return dates;
+};
+
+export const nextOccurrence = (rule: RecurringRule) => {
+    for (let n = 0; ; n++) {
+        const date = occurrenceDate(rule, n);
+        if (rule.endDate && date > rule.endDate) return null;
+        if (date >= rule.startDate && (!rule.lastGenerated || date > rule.lastGenerated)) return date;
+    }
+};
+
+export const buildRecurringInstance = (rule: RecurringRule, date: string): FinancialRecord => ({
+    id: `${rule.id}-${date}`,
+    name: rule.name,
+    amount: rule.amount,
+    date,
+    comment: rule.comment,
+    category: rule.category,
+    currency: rule.currency,
+    splits: rule.splits,
+    tags: rule.tags,
+    recurrence: { ruleId: rule.id }
+});
@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import type { FinancialRecord, SyncAdapter } from './types';
+import { applySyncResults, createLocalSyncServer, pickFields } from './sync';
+
+const record = (id: string, extra: Partial<FinancialRecord> = {}): FinancialRecord => ({
+    id,
+    name: 'Bolt',
+    amount: -1000,
+    date: '2026-10-01',
+    comment: '',
+    category: 'Étel',
+    syncStatus: 'pending',
+    lastModified: 1,
+    ...extra
+});
+
+// Egy eszköz: helyi napló és pull kurzor, a szinkronkör ugyanúgy fut, mint az App-ben
+const createDevice = (server: SyncAdapter) => {
+    const device = {
+        records: [] as FinancialRecord[],
+        cursor: 0,
+        sync: async () => {
+            const pushed = device.records.filter(r => r.syncStatus === 'pending' || r.syncStatus === 'tombstone');
+            const push = pushed.length > 0
+                ? await server.push(pushed.map(({ base, ...r }) => r))
+                : { accepted: [], conflicts: [], revision: 0 };
+            const pull = await server.pull(device.cursor);
+            const result = applySyncResults(device.records, pushed, push, pull);
+            device.records = result.records;
+            device.cursor = pull.revision;
+            return result;
+        },
+        edit: (id: string, changes: Partial<FinancialRecord>) => {
+            device.records = device.records.map(r => r.id === id ? { ...r, ...changes, syncStatus: 'pending', lastModified: (r.lastModified ?? 0) + 1 } : r);
+        },
+        remove: (id: string) => {
+            device.records = device.records.map(r => r.id === id ? { ...r, syncStatus: 'tombstone', lastModified: (r.lastModified ?? 0) + 1 } : r);
+        }
+    };
+    return device;
+};
+
+describe('createLocalSyncServer', () => {
+    it('assigns increasing revisions and returns only newer changes on pull', async () => {
+        const server = createLocalSyncServer();
+        const first = await server.push([record('a'), record('b')]);
+        expect(first.accepted.map(r => [r.id, r.revision, r.syncStatus])).toEqual([['a', 1, 'synced'], ['b', 2, 'synced']]);
+        expect(first.revision).toBe(2);
+
+        await server.push([{ ...record('a', { amount: -2000 }), revision: 1 }]);
+        expect((await server.pull(0)).changes.map(r => [r.id, r.revision])).toEqual([['a', 3], ['b', 2]]);
+        expect((await server.pull(2)).changes.map(r => r.id)).toEqual(['a']);
+        expect(await server.pull(3)).toEqual({ changes: [], revision: 3 });
+    });
+
+    it('resends everything when the client cursor is ahead of the server', async () => {
+        const server = createLocalSyncServer();
+        await server.push([record('a')]);
+        expect((await server.pull(10)).changes.map(r => r.id)).toEqual(['a']);
+    });
+
+    it('rejects a change based on a stale revision as a conflict', async () => {
+        const server = createLocalSyncServer();
+        await server.push([record('a')]);
+        await server.push([{ ...record('a', { name: 'Piac' }), revision: 1 }]);
+        const result = await server.push([{ ...record('a', { amount: -5000 }), revision: 1 }]);
+        expect(result.accepted).toEqual([]);
+        expect(result.conflicts).toHaveLength(1);
+        expect(result.conflicts[0].remote).toMatchObject({ name: 'Piac', revision: 2 });
+    });
+
+    it('notifies subscribers of new revisions until they unsubscribe', async () => {
+        const server = createLocalSyncServer();
+        const seen: number[] = [];
+        const unsubscribe = server.subscribe(revision => seen.push(revision));
+        await server.push([record('a')]);
+        unsubscribe();
+        await server.push([record('b')]);
+        expect(seen).toEqual([1]);
+    });
+});
+
+describe('applySyncResults', () => {
+    const twoDevices = async () => {
+        const server = createLocalSyncServer();
+        const a = createDevice(server);
+        const b = createDevice(server);
+        a.records = [record('r1')];
+        await a.sync();
+        await b.sync();
+        return { server, a, b };
+    };
+
+    it('marks pushed and pulled records as synced on the server revision', async () => {
+        const { a, b } = await twoDevices();
+        expect(a.records).toEqual([expect.objectContaining({ id: 'r1', revision: 1, syncStatus: 'synced' })]);
+        expect(b.records).toEqual([expect.objectContaining({ id: 'r1', revision: 1, syncStatus: 'synced', base: pickFields(a.records[0]) })]);
+        expect(b.cursor).toBe(1);
+    });
+
+    it('keeps a record edited during the sync pending on the new base revision', async () => {
+        const server = createLocalSyncServer();
+        const device = createDevice(server);
+        device.records = [record('r1')];
+        const pushed = device.records;
+        const push = await server.push(pushed);
+        device.edit('r1', { name: 'Piac' });
+        const { records } = applySyncResults(device.records, pushed, push, await server.pull(0));
+        expect(records[0]).toMatchObject({ name: 'Piac', revision: 1, syncStatus: 'pending' });
+    });
+
+    it('keeps a record deleted during its first push as a tombstone and removes it on the next sync', async () => {
+        const server = createLocalSyncServer();
+        const a = createDevice(server);
+        const b = createDevice(server);
+        a.records = [record('r1')];
+        const pushed = a.records;
+        const push = await server.push(pushed);
+        a.remove('r1');
+        const { records } = applySyncResults(a.records, pushed, push, await server.pull(0));
+        expect(records).toEqual([expect.objectContaining({ id: 'r1', revision: 1, syncStatus: 'tombstone' })]);
+        a.records = records;
+        a.cursor = 1;
+        await a.sync();
+        expect(a.records).toEqual([]);
+        await b.sync();
+        expect(b.records).toEqual([]);
+    });
+
+    it('merges edits of different fields made on a stale base', async () => {
+        const { a, b } = await twoDevices();
+        a.edit('r1', { name: 'Piac' });
+        await a.sync();
+        b.edit('r1', { amount: -2500 });
+        const { conflicts } = await b.sync();
+        expect(conflicts).toEqual([]);
+        expect(b.records[0]).toMatchObject({ name: 'Piac', amount: -2500, revision: 2, syncStatus: 'pending' });
+        await b.sync();
+        await a.sync();
+        expect(a.records[0]).toMatchObject({ name: 'Piac', amount: -2500, revision: 3, syncStatus: 'synced' });
+    });
+
+    it('reports a conflict when both sides changed the same field', async () => {
+        const { a, b } = await twoDevices();
+        a.edit('r1', { amount: -1500 });
+        await a.sync();
+        b.edit('r1', { amount: -2500 });
+        const { conflicts } = await b.sync();
+        expect(conflicts).toHaveLength(1);
+        expect(conflicts[0].remote).toMatchObject({ amount: -1500, revision: 2 });
+        expect(b.records[0]).toMatchObject({ amount: -2500, syncStatus: 'conflict' });
+    });
+
+    it('purges an accepted deletion locally and propagates it as a tombstone', async () => {
+        const { server, a, b } = await twoDevices();
+        a.remove('r1');
+        await a.sync();
+        expect(a.records).toEqual([]);
+        expect((await server.pull(1)).changes).toEqual([expect.objectContaining({ id: 'r1', syncStatus: 'tombstone', revision: 2 })]);
+        await b.sync();
+        expect(b.records).toEqual([]);
+    });
+
+    it('does not resurrect a record deleted on both devices', async () => {
+        const { a, b } = await twoDevices();
+        a.remove('r1');
+        await a.sync();
+        b.remove('r1');
+        const { conflicts } = await b.sync();
+        expect(conflicts).toEqual([]);
+        expect(b.records).toEqual([]);
+    });
+
+    it('turns a remote deletion of a locally edited record into a conflict', async () => {
+        const { a, b } = await twoDevices();
+        a.remove('r1');
+        await a.sync();
+        b.edit('r1', { name: 'Piac' });
+        const { conflicts } = await b.sync();
+        expect(conflicts).toHaveLength(1);
+        expect(conflicts[0].remote.syncStatus).toBe('tombstone');
+        expect(b.records[0]).toMatchObject({ name: 'Piac', syncStatus: 'conflict' });
+    });
+});
@@ -0,0 +1,179 @@
+import { MERGE_FIELDS, type FinancialRecord, type MergeField, type RecordFields, type SyncAdapter, type SyncConflict, type SyncPullResult, type SyncPushResult } from './types';
+import { BASE_CURRENCY } from './ledger';
+
+type SyncServerState = { revision: number; records: Record<string, FinancialRecord> };
+
+// Referencia szerver: memóriában fut, opcionálisan localStorage-ba menti az állapotát,
+// így ugyanazon a gépen több fül is külön eszközként szinkronizálhat rajta keresztül.
+export const createLocalSyncServer = (storageKey?: string): SyncAdapter => {
+    let state: SyncServerState = { revision: 0, records: {} };
+    const listeners = new Set<(revision: number) => void>();
+
+    const load = () => {
+        if (!storageKey) return;
+        const saved = localStorage.getItem(storageKey);
+        if (saved) state = JSON.parse(saved);
+    };
+    const save = () => {
+        if (storageKey) localStorage.setItem(storageKey, JSON.stringify(state));
+    };
+    const notify = () => listeners.forEach(l => l(state.revision));
+
+    if (storageKey) {
+        window.addEventListener('storage', (e) => {
+            if (e.key === storageKey) { load(); notify(); }
+        });
+    }
+
+    return {
+        push: async (changes) => {
+            load();
+            const accepted: FinancialRecord[] = [];
+            const conflicts: SyncConflict[] = [];
+            for (const change of changes) {
+                const current = state.records[change.id];
+                if (current && current.revision !== (change.revision ?? 0)) {
+                    conflicts.push({ local: change, remote: current });
+                    continue;
+                }
+                const stored: FinancialRecord = { ...change, syncStatus: change.syncStatus === 'tombstone' ? 'tombstone' : 'synced', revision: ++state.revision };
+                state.records[change.id] = stored;
+                accepted.push(stored);
+            }
+            if (accepted.length > 0) {
+                save();
+                notify();
+            }
+            return { accepted, conflicts, revision: state.revision };
+        },
+        pull: async (sinceRevision) => {
+            load();
+            // Ha a kliens kurzora a szerver fölött áll, a szerver újraindult: mindent visszaküldünk.
+            const since = sinceRevision > state.revision ? 0 : sinceRevision;
+            const changes = Object.values(state.records).filter(r => (r.revision ?? 0) > since);
+            return { changes, revision: state.revision };
+        },
+        subscribe: (onChange) => {
+            listeners.add(onChange);
+            return () => { listeners.delete(onChange); };
+        }
+    };
+};
+
+// HTTP backend: POST {baseUrl}/push, GET {baseUrl}/changes?since=N, változásfolyam SSE-n a {baseUrl}/feed címen.
+export const createHttpSyncAdapter = (baseUrl: string): SyncAdapter => {
+    const request = async <T,>(path: string, init?: RequestInit): Promise<T> => {
+        const res = await fetch(`${baseUrl}${path}`, { ...init, headers: { 'Content-Type': 'application/json' } });
+        if (!res.ok) throw new Error(`Sync request failed: ${res.status}`);
+        return res.json();
+    };
+
+    return {
+        push: (changes) => request<SyncPushResult>('/push', { method: 'POST', body: JSON.stringify({ changes }) }),
+        pull: (sinceRevision) => request<SyncPullResult>(`/changes?since=${sinceRevision}`),
+        subscribe: (onChange) => {
+            const source = new EventSource(`${baseUrl}/feed`);
+            source.onmessage = (e) => onChange(Number(e.data));
+            return () => source.close();
+        }
+    };
+};
+
+export const pickFields = (r: FinancialRecord): RecordFields => ({
+    name: r.name, amount: r.amount, currency: r.currency || BASE_CURRENCY, category: r.category, date: r.date, comment: r.comment,
+    splits: r.splits?.length ? r.splits : undefined,
+    tags: r.tags?.length ? r.tags : undefined
+});
+
+// A felosztás és a címkék tömbök, ezért érték szerint hasonlítjuk a mezőket
+export const sameFieldValue = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+// Egy mező átmásolása egyik változatból a másikba, a mező típusát megtartva
+export const copyField = <K extends MergeField>(target: RecordFields, source: RecordFields, field: K) => {
+    target[field] = source[field];
+};
+
+// Háromutas összefésülés a közös alapverzióhoz képest: ami csak az egyik oldalon változott, automatikusan átvesszük,
+// ami mindkét oldalon eltérően változott, az ütközés. Alapverzió nélkül minden eltérő mező ütközésnek számít.
+export const mergeRecordFields = (base: RecordFields | undefined, local: RecordFields, remote: RecordFields) => {
+    const merged = { ...local };
+    const clashes: MergeField[] = [];
+    for (const field of MERGE_FIELDS) {
+        if (sameFieldValue(local[field], remote[field])) continue;
+        if (base && sameFieldValue(local[field], base[field])) {
+            copyField(merged, remote, field);
+        } else if (!base || !sameFieldValue(remote[field], base[field])) {
+            clashes.push(field);
+        }
+    }
+    return { merged, clashes };
+};
+
+export const asSynced = (r: FinancialRecord): FinancialRecord => ({ ...r, syncStatus: 'synced', base: pickFields(r) });
+
+// A push és pull eredményét a helyi naplóra vetíti. Tiszta függvény, hogy a sorrend és az ütközéskezelés tesztelhető legyen.
+export const applySyncResults = (records: FinancialRecord[], pushed: FinancialRecord[], push: SyncPushResult, pull: SyncPullResult) => {
+    const byId = new Map(records.map(r => [r.id, r]));
+    const conflicts: SyncConflict[] = [];
+
+    const handleConflict = (local: FinancialRecord, remote: FinancialRecord) => {
+        if (local.syncStatus !== 'tombstone' && remote.syncStatus !== 'tombstone') {
+            const { merged, clashes } = mergeRecordFields(local.base, pickFields(local), pickFields(remote));
+            if (clashes.length === 0) {
+                const remoteFields = pickFields(remote);
+                const matchesRemote = MERGE_FIELDS.every(f => sameFieldValue(merged[f], remoteFields[f]));
+                byId.set(local.id, matchesRemote
+                    ? asSynced(remote)
+                    : { ...local, ...merged, revision: remote.revision, base: pickFields(remote), syncStatus: 'pending' });
+                return;
+            }
+        }
+        byId.set(local.id, { ...local, syncStatus: 'conflict' });
+        conflicts.push({ local, remote });
+    };
+
+    for (const accepted of push.accepted) {
+        const local = byId.get(accepted.id);
+        const sent = pushed.find(p => p.id === accepted.id);
+        if (!local) continue;
+        if (accepted.syncStatus === 'tombstone') {
+            byId.delete(accepted.id);
+            continue;
+        }
+        // Ha a tételt a szinkron közben újra szerkesztették, a helyi változat marad függőben az új alap revízión.
+        byId.set(accepted.id, local.lastModified === sent?.lastModified
+            ? asSynced(accepted)
+            : { ...local, revision: accepted.revision, base: pickFields(accepted) });
+    }
+
+    for (const conflict of push.conflicts) {
+        const local = byId.get(conflict.local.id);
+        if (!local) continue;
+        if (local.syncStatus === 'tombstone' && conflict.remote.syncStatus === 'tombstone') {
+            byId.delete(local.id);
+            continue;
+        }
+        handleConflict(local, conflict.remote);
+    }
+
+    for (const remote of pull.changes) {
+        const local = byId.get(remote.id);
+        const remoteDeleted = remote.syncStatus === 'tombstone';
+        if (!local) {
+            if (!remoteDeleted) byId.set(remote.id, asSynced(remote));
+        } else if (local.syncStatus === 'conflict' || local.revision === remote.revision) {
+            continue;
+        } else if (remoteDeleted && local.syncStatus !== 'pending') {
+            byId.delete(local.id);
+        } else if (local.syncStatus === 'pending' || local.syncStatus === 'tombstone') {
+            handleConflict(local, remote);
+        } else {
+            byId.set(remote.id, asSynced(remote));
+        }
+    }
+
+    const merged = records.filter(r => byId.has(r.id)).map(r => byId.get(r.id)!);
+    const known = new Set(records.map(r => r.id));
+    const incoming = [...byId.values()].filter(r => !known.has(r.id));
+    return { records: [...incoming, ...merged], conflicts };
+};
@@ -0,0 +1,288 @@
+import type { Content, FunctionCall, FunctionDeclaration, FunctionResponse } from '@google/genai';
+
+// 'tombstone': helyben törölt tétel, amíg a törlést a szerver el nem fogadja (a szerveren végleges sírkő)
+export type SyncStatus = 'synced' | 'pending' | 'conflict' | 'tombstone';
+
+// Jóváhagyásra váró asszisztens-művelet. Módosításnál és törlésnél a target az eredeti tétel,
+// a név/összeg/kategória/megjegyzés/dátum mezők pedig a javasolt új értékek; keretnél a budget a javasolt keret.
+export type PendingAction = 'add' | 'update' | 'delete' | 'budget';
+
+export type PendingTransaction = {
+    id: string;
+    toolCallId: string;
+    name: string;
+    amount: number;
+    category: string;
+    comment: string;
+    action?: PendingAction;
+    date?: string;
+    currency?: string;
+    attachmentIds?: string[];
+    target?: FinancialRecord;
+    budget?: Budget;
+    previousBudget?: Budget;
+    isEditing?: boolean;
+    sessionResolver?: (response: any) => void;
+    // A szöveges beszélgetés jóváhagyásra váró hívásának kulcsa: újratöltés után ebből áll elő a modellnek küldött válasz
+    chatCallKey?: string;
+};
+
+export type ChatMessage = { 
+    id: string; 
+    role: 'user' | 'model' | 'system'; 
+    text: string; 
+    pendingTx?: PendingTransaction;
+    resolvedTx?: Omit<PendingTransaction, 'isEditing' | 'sessionResolver'>;
+    grounding?: any[]; 
+    // Élő hangmunkamenet átirata; a partial buborék még gyűlik
+    voice?: boolean;
+    partial?: boolean;
+};
+
+// A modell utolsó körének írási hívása, amelyre a felhasználó döntése után választ küldünk
+export type AwaitingChatCall = { key: string; id?: string; name: string; response?: Record<string, unknown> };
+
+// Helyben tárolt beszélgetés: a megjelenített üzenetek, a modellnek küldött előzmény és a függő hívások együtt
+export type ChatThread = {
+    id: string;
+    title: string;
+    messages: ChatMessage[];
+    history: Content[];
+    awaiting: AwaitingChatCall[];
+    createdAt: number;
+    updatedAt: number;
+};
+
+// Felhasználó által kezelt kategória. A tételek a kategória nevét tárolják, ezért átnevezéskor a napló is migrálódik.
+// Alkategória csak főkategória alá kerülhet (egy szint mélység).
+export type Category = {
+    id: string;
+    name: string;
+    color: string;
+    icon: string;
+    order: number;
+    parentId?: string;
+    archived?: boolean;
+};
+
+// Automatikus kategorizálási szabály: névrészlet és/vagy összegsáv → kategória
+export type CategoryRule = {
+    id: string;
+    pattern: string;
+    category: string;
+    minAmount?: number;
+    maxAmount?: number;
+};
+
+export type CategorizerInput = { name: string; comment?: string; amount: number };
+export type CategorySuggestion = { category: string; confidence: number; source: 'rule' | 'history' };
+export type Categorizer = (input: CategorizerInput) => CategorySuggestion | null;
+
+// Felosztott tétel egy sora: egy blokkon belül kategóriánként külön összeg (pl. élelmiszer + háztartás)
+export type RecordSplit = { category: string; amount: number };
+
+export type FinancialRecord = { 
+    id: string; 
+    name: string; 
+    amount: number; 
+    date: string; 
+    comment: string; 
+    category: string;
+    syncStatus?: SyncStatus;
+    lastModified?: number;
+    revision?: number;
+    base?: RecordFields;
+    recurrence?: { ruleId: string; detached?: boolean };
+    currency?: string;
+    importId?: string;
+    splits?: RecordSplit[];
+    tags?: string[];
+    attachmentIds?: string[];
+};
+
+// Tételhez csatolt fájl (kép vagy PDF, pl. nyugta, garancia, szerződés). Csak helyben tárolódik, a tétel az azonosítójával hivatkozik rá.
+export type Attachment = { id: string; name: string; mimeType: string; size: number; blob: Blob; thumbnail?: Blob; createdAt: number };
+
+// Nyugta vagy számla kiolvasott adatai (strukturált modellválasz)
+export type ReceiptExtraction = {
+    merchant: string;
+    date?: string;
+    total: number;
+    currency?: string;
+    vat?: number;
+    category?: string;
+    lineItems: { name: string; quantity?: number; amount: number }[];
+};
+
+// Költségkeret: kategóriánként vagy összesítve ('*'). Hónap nélkül minden hónapra érvényes a kezdő hónaptól,
+// hónappal megadva csak arra a hónapra írja felül az alapértelmezett keretet.
+export type Budget = {
+    id: string;
+    category: string;
+    amount: number;
+    startMonth: string;
+    month?: string;
+    carryOver: boolean;
+    warnAt: number;
+};
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export type RecurringRule = {
+    id: string;
+    name: string;
+    amount: number;
+    category: string;
+    comment: string;
+    frequency: RecurrenceFrequency;
+    interval: number;
+    startDate: string;
+    endDate?: string;
+    dayOfMonth?: number;
+    lastGenerated?: string;
+    currency?: string;
+    splits?: RecordSplit[];
+    tags?: string[];
+};
+
+// Banki kivonat importjának eredménye, mielőtt naplótétel lesz belőle
+export type ImportedTransaction = {
+    date: string;
+    name: string;
+    amount: number;
+    currency: string;
+    comment: string;
+    externalId?: string;
+};
+
+export type CsvDateFormat = 'YYYY-MM-DD' | 'YYYY.MM.DD' | 'DD.MM.YYYY' | 'MM/DD/YYYY';
+
+// Bankonként megjegyzett CSV oszlopkiosztás; a fejléc alapján automatikusan újra kiválasztódik
+export type ImportProfile = {
+    id: string;
+    headerSignature: string;
+    delimiter: string;
+    hasHeader: boolean;
+    dateFormat: CsvDateFormat;
+    decimalSeparator: ',' | '.';
+    columns: { date: number; name: number; amount: number; comment?: number; currency?: number };
+};
+
+export type AmountOperator = '<' | '<=' | '>' | '>=' | '=';
+
+// A napló szűrői; a szöveges lekérdezés és a szűrőpanel is ezt állítja elő
+export type LedgerFilter = {
+    text: string[];
+    categories: string[];
+    dateFrom?: string;
+    dateTo?: string;
+    amounts: { op: AmountOperator, value: number }[];
+    direction: 'all' | 'income' | 'expense';
+    syncStatus?: SyncStatus;
+    comment?: string;
+    tags: string[];
+};
+
+export type SavedFilter = { id: string; name: string; query: string };
+
+export type LedgerSortKey = 'date' | 'name' | 'category' | 'amount';
+export type LedgerSort = { key: LedgerSortKey; dir: 'asc' | 'desc' };
+
+// Árfolyam: egy egységnyi idegen pénznem értéke alap pénznemben (HUF). Az azonosító a pénznem ISO kódja.
+export type ExchangeRate = { id: string; rate: number; updatedAt: number };
+
+// Pénzügyi pontszám összetevői; a súlyok a felhasználó által állíthatók, a havi pontszámok előzményként tárolódnak
+export type HealthComponentKey = 'savings' | 'budget' | 'volatility' | 'emergency' | 'trend';
+export type HealthWeights = { id: string } & Record<HealthComponentKey, number>;
+export type HealthComponent = { key: HealthComponentKey; score: number | null; detail: string };
+export type HealthSnapshot = { id: string; score: number; components: Partial<Record<HealthComponentKey, number>>; recordedAt: number };
+
+// Helyben számolt elemzés eredménye a vezérlőpult kártyáihoz (előrejelzés, szokatlan kiadás, új előfizetés)
+export type InsightKind = 'forecast' | 'anomaly' | 'subscription';
+export type Insight = {
+    id: string;
+    kind: InsightKind;
+    severity: 'info' | 'warning' | 'danger';
+    title: string;
+    detail: string;
+    amount: number;
+    category?: string;
+};
+
+// A felhasználó által szerkeszthető mezők; a háromutas összefésülés ezeken dolgozik
+export const MERGE_FIELDS = ['name', 'amount', 'currency', 'category', 'date', 'comment', 'splits', 'tags'] as const;
+export type MergeField = typeof MERGE_FIELDS[number];
+export type RecordFields = Pick<FinancialRecord, MergeField>;
+
+export type SyncConflict = { local: FinancialRecord, remote: FinancialRecord };
+
+export type SyncPushResult = { accepted: FinancialRecord[]; conflicts: SyncConflict[]; revision: number };
+export type SyncPullResult = { changes: FinancialRecord[]; revision: number };
+
+// A szerver minden elfogadott módosításhoz új, monoton növekvő revíziószámot rendel.
+// A push a kliens által ismert utolsó revízióhoz képest küldi a változást; ha a szerveren
+// azóta újabb revízió keletkezett, a tétel ütközésként jön vissza.
+export interface SyncAdapter {
+    push: (changes: FinancialRecord[]) => Promise<SyncPushResult>;
+    pull: (sinceRevision: number) => Promise<SyncPullResult>;
+    subscribe: (onChange: (revision: number) => void) => () => void;
+}
+
+export type VoiceName = 'Kore' | 'Puck' | 'Charon' | 'Fenrir' | 'Zephyr';
+
+// A turns a beszélgetés-előzményhez fűzendő körök (a kérdés, az eszközkörök és a modell válasza).
+// awaitsResponse: a hívás a modell utolsó körében van, az eredményét (jóváhagyás/elvetés) vissza kell küldeni.
+export type ChatReply = {
+    text: string;
+    grounding?: any[];
+    functionCalls: { id?: string; name?: string; args?: any; awaitsResponse?: boolean }[];
+    turns?: Content[];
+};
+
+// Offline kimenő sor: a kapcsolat nélkül indított AI kérések itt várnak a visszajátszásra
+export type OutboxKind = 'chat' | 'analysis' | 'image';
+export type OutboxStatus = 'queued' | 'sending' | 'failed' | 'done';
+
+export type OutboxItem = {
+    id: string;
+    kind: OutboxKind;
+    payload: string;
+    status: OutboxStatus;
+    createdAt: number;
+    result?: ChatReply | string;
+    error?: string;
+    // Offline chat üzenetnél a szál, ahová a válasz tartozik, a beszélgetés addigi előzménye
+    // és a függő hívások eredményei, hogy a válasz a szálat folytassa
+    threadId?: string;
+    history?: Content[];
+    functionResponses?: FunctionResponse[];
+};
+
+export type OutboxChatContext = Pick<OutboxItem, 'threadId' | 'history' | 'functionResponses'>;
+
+export type OutboxControls = {
+    items: OutboxItem[];
+    enqueue: (kind: OutboxKind, payload: string, chatContext?: OutboxChatContext) => void;
+    retry: (id: string) => void;
+    remove: (id: string) => void;
+};
+
+// Az élő hangmunkamenet állapotgépe: idle → connecting → listening ⇄ speaking, hiba esetén újrakapcsolódás, végül error
+export type VoiceState = 'idle' | 'connecting' | 'listening' | 'speaking' | 'error';
+
+export type VoiceSessionOptions = {
+    voiceName: VoiceName;
+    playbackRate: number;
+    systemInstruction: string;
+    tools: FunctionDeclaration[];
+    onStateChange: (state: VoiceState) => void;
+    onToolCall: (calls: FunctionCall[], reply: (responses: FunctionResponse[]) => void) => void;
+    onTranscript: (role: 'user' | 'model', text: string) => void;
+    onTurnEnd: () => void;
+    onError: (message: string) => void;
+};
+
+export type VoiceSession = {
+    start: () => Promise<void>;
+    stop: () => void;
+};